@@ -7,8 +7,12 @@ import { z } from "zod";
 // Node.js type declarations
 import * as fs from 'fs/promises';
 import * as path from 'path';
+import { createHash, randomBytes } from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
 import { fileURLToPath } from 'url';
-import { readFileSync, existsSync } from "fs";
+import { readFileSync, existsSync, realpathSync } from "fs";
+import type BetterSqlite3 from 'better-sqlite3';
+import { parse as parseYaml } from 'yaml';
 
 
 
@@ -16,6 +20,10 @@ import { readFileSync, existsSync } from "fs";
 const parentPath = path.dirname(fileURLToPath(import.meta.url));
 const defaultMemoryPath = path.join(parentPath, 'memory.json');
 const defaultSessionsPath = path.join(parentPath, 'sessions.json');
+const defaultSqlitePath = path.join(parentPath, 'memory.db');
+const defaultChangeLogPath = path.join(parentPath, 'changes.jsonl');
+const defaultSnapshotDir = path.join(parentPath, 'snapshots');
+const defaultTypesConfigPath = path.join(parentPath, 'types.json');
 
 // Properly handle absolute and relative paths for MEMORY_FILE_PATH
 const MEMORY_FILE_PATH = process.env.MEMORY_FILE_PATH
@@ -31,8 +39,47 @@ const SESSIONS_FILE_PATH = process.env.SESSIONS_FILE_PATH
     : path.join(process.cwd(), process.env.SESSIONS_FILE_PATH)  // Relative to current working directory
   : defaultSessionsPath;  // Default fallback
 
+// Properly handle absolute and relative paths for CHANGELOG_FILE_PATH
+const CHANGELOG_FILE_PATH = process.env.CHANGELOG_FILE_PATH
+  ? path.isAbsolute(process.env.CHANGELOG_FILE_PATH)
+    ? process.env.CHANGELOG_FILE_PATH  // Use absolute path as is
+    : path.join(process.cwd(), process.env.CHANGELOG_FILE_PATH)  // Relative to current working directory
+  : defaultChangeLogPath;  // Default fallback
+
+// Properly handle absolute and relative paths for SNAPSHOT_DIR
+const SNAPSHOT_DIR = process.env.SNAPSHOT_DIR
+  ? path.isAbsolute(process.env.SNAPSHOT_DIR)
+    ? process.env.SNAPSHOT_DIR  // Use absolute path as is
+    : path.join(process.cwd(), process.env.SNAPSHOT_DIR)  // Relative to current working directory
+  : defaultSnapshotDir;  // Default fallback
+
+// Properly handle absolute and relative paths for TYPES_CONFIG_FILE_PATH
+const TYPES_CONFIG_FILE_PATH = process.env.TYPES_CONFIG_FILE_PATH
+  ? path.isAbsolute(process.env.TYPES_CONFIG_FILE_PATH)
+    ? process.env.TYPES_CONFIG_FILE_PATH  // Use absolute path as is
+    : path.join(process.cwd(), process.env.TYPES_CONFIG_FILE_PATH)  // Relative to current working directory
+  : defaultTypesConfigPath;  // Default fallback, only read if it exists
+
+// Maximum number of snapshots kept; the oldest automatic snapshots are removed first
+const SNAPSHOT_RETENTION = Math.max(1, parseInt(process.env.SNAPSHOT_RETENTION || '', 10) || 20);
+
+// Knowledge graph storage backend: "json" stores MEMORY_FILE_PATH, "sqlite" stores SQLITE_FILE_PATH
+const VALID_STORAGE_BACKENDS = ['json', 'sqlite'];
+const STORAGE_BACKEND = process.env.STORAGE_BACKEND || 'json';
+
+// Embedding provider for semantic search; "hashed" is built in and works offline
+const VALID_EMBEDDING_PROVIDERS = ['hashed'];
+const EMBEDDING_PROVIDER = process.env.EMBEDDING_PROVIDER || 'hashed';
+
+// Properly handle absolute and relative paths for SQLITE_FILE_PATH
+const SQLITE_FILE_PATH = process.env.SQLITE_FILE_PATH
+  ? path.isAbsolute(process.env.SQLITE_FILE_PATH)
+    ? process.env.SQLITE_FILE_PATH  // Use absolute path as is
+    : path.join(process.cwd(), process.env.SQLITE_FILE_PATH)  // Relative to current working directory
+  : defaultSqlitePath;  // Default fallback
+
 // Student education specific entity types
-const validEntityTypes = [
+const BUILT_IN_ENTITY_TYPES = [
   'course',
   'assignment',
   'exam',
@@ -45,1931 +92,7178 @@ const validEntityTypes = [
   'term',
   'goal',
   'professor',
+  'grading_scheme', // Category weights used to compute a course grade
   'status',   // Entity status
   'priority'  // Entity priority
 ] as const;
 
-// Type for entity types to ensure type safety
-type EntityType = typeof validEntityTypes[number];
+// Type for entity types to ensure type safety: the built-in names, or a custom name from the type config file,
+// which only isValidEntityType can produce since custom names are only known at runtime
+type BuiltInEntityType = typeof BUILT_IN_ENTITY_TYPES[number];
+type CustomEntityType = string & { readonly __customEntityType: unique symbol };
+type EntityType = BuiltInEntityType | CustomEntityType;
+
+// Valid entity types; custom types from the type config file are added at startup
+const validEntityTypes: EntityType[] = [...BUILT_IN_ENTITY_TYPES];
 
 // Function to validate entity type
 function isValidEntityType(type: string): type is EntityType {
-  return (validEntityTypes as readonly string[]).includes(type);
+  return (validEntityTypes as string[]).includes(type);
 }
 
 // Explicit validation function for TypeScript
-function validateEntityType(type: string): void {
+function validateEntityType(type: string): asserts type is EntityType {
   if (!isValidEntityType(type)) {
     throw new Error(`Invalid entity type: ${type}. Valid types are: ${validEntityTypes.join(', ')}`);
   }
 }
 
+// Which entities a relation type may connect. Omitted endpoint types allow any entity type.
+interface RelationDefinition {
+  from?: EntityType[];
+  to?: EntityType[];
+  cardinality?: 'one';  // A source has at most one relation of this type to entities of each target type
+  symmetric?: boolean;  // The relation means the same in either direction and is stored once
+}
+
 // Student education specific relation types
-const VALID_RELATION_TYPES = [
-  'enrolled_in',     // Student is taking a course
-  'assigned_in',     // Assignment is part of a course
-  'due_on',          // Assignment/exam has specific due date
-  'covers',          // Lecture/resource covers concept
-  'references',      // Note references concept
-  'prerequisite_for', // Concept is foundation for another
-  'taught_by',       // Course taught by professor
-  'scheduled_for',   // Lecture/exam scheduled for specific time
-  'contains',        // Course contains lectures/assignments
-  'requires',        // Assignment requires specific concepts
-  'related_to',      // Concept related to another concept
-  'created_for',     // Note created for specific lecture
-  'studies',         // Study session focuses on concept/exam
-  'helps_with',      // Resource helps with assignment/concept
-  'submitted',       // Assignment submitted on date
-  'part_of',         // Entity is part of another entity
-  'included_in',     // Included in a larger component
-  'follows',         // Entity follows another in sequence
-  'attends',         // Student attends lecture
-  'graded_with',     // Assignment/exam graded with specific criteria
-  'has_status',      // Entity has a specific status
-  'has_priority'     // Entity has a specific priority
-];
+const RELATION_SCHEMA: Record<string, RelationDefinition> = {
+  enrolled_in: { to: ['course'] },                                  // Student is taking a course
+  assigned_in: { from: ['assignment', 'project'], to: ['course'], cardinality: 'one' }, // Assignment is part of a course
+  due_on: { from: ['assignment', 'exam', 'project'] },             // Assignment/exam has specific due date
+  covers: { from: ['course', 'lecture', 'resource', 'exam', 'assignment', 'question', 'note'], to: ['concept'] }, // Lecture/resource covers concept
+  references: { from: ['note', 'question', 'resource'], to: ['concept', 'resource'] }, // Note references concept
+  prerequisite_for: { from: ['concept', 'course'], to: ['concept', 'course'] }, // Concept is foundation for another
+  taught_by: { from: ['course', 'lecture'], to: ['professor'] },  // Course taught by professor
+  scheduled_for: { from: ['course'], to: ['exam', 'lecture'] },    // Lecture/exam scheduled for a course
+  contains: { from: ['course', 'term', 'lecture', 'exam', 'project', 'resource'] }, // Course contains lectures/assignments
+  requires: { from: ['assignment', 'project', 'exam', 'course'], to: ['concept', 'resource', 'course'] }, // Assignment requires specific concepts
+  related_to: { symmetric: true },                                 // Concept related to another concept
+  created_for: { from: ['note'] },                                 // Note created for specific lecture
+  studies: { to: ['concept', 'exam', 'course', 'resource'] },     // Study session focuses on concept/exam
+  helps_with: { from: ['resource', 'note'] },                      // Resource helps with assignment/concept
+  submitted: { from: ['assignment', 'project'] },                  // Assignment submitted on date
+  part_of: { cardinality: 'one' },                                 // Entity is part of another entity
+  included_in: {},                                                 // Included in a larger component
+  follows: {},                                                     // Entity follows another in sequence
+  attends: { to: ['lecture'] },                                    // Student attends lecture
+  graded_with: { from: ['course', 'assignment', 'exam'], to: ['grading_scheme'], cardinality: 'one' }, // Graded with specific criteria
+  has_status: { to: ['status'], cardinality: 'one' },              // Entity has a specific status
+  has_priority: { to: ['priority'], cardinality: 'one' }           // Entity has a specific priority
+};
+
+const VALID_RELATION_TYPES = Object.keys(RELATION_SCHEMA);
+
+// Why a relation between entities of these types breaks the relation schema, if it does
+function relationSchemaViolation(relation: Relation, fromType: string, toType: string): string | undefined {
+  const definition = RELATION_SCHEMA[relation.relationType];
+  if (!definition) {
+    return `Invalid relation type: ${relation.relationType}. Valid types are: ${VALID_RELATION_TYPES.join(', ')}`;
+  }
+  const oneOf = (types: EntityType[]) => types.length > 1 ? `${types.slice(0, -1).join(', ')} or ${types[types.length - 1]}` : types[0];
+  if (definition.from && !(definition.from as string[]).includes(fromType)) {
+    return `A ${relation.relationType} relation must start at a ${oneOf(definition.from)} entity, but '${relation.from}' is a ${fromType}`;
+  }
+  if (definition.to && !(definition.to as string[]).includes(toType)) {
+    return `A ${relation.relationType} relation must point at a ${oneOf(definition.to)} entity, but '${relation.to}' is a ${toType}`;
+  }
+  return undefined;
+}
+
+// Key identifying a relation for duplicate checks; a symmetric relation is the same in either direction
+function relationIdentity(relation: Relation): string {
+  const [from, to] = RELATION_SCHEMA[relation.relationType]?.symmetric && relation.to < relation.from
+    ? [relation.to, relation.from]
+    : [relation.from, relation.to];
+  return JSON.stringify([from, to, relation.relationType]);
+}
 
-// Define valid status values for education entities
+// Key grouping the relations a cardinality of one applies to: one source, one relation type, one target entity type
+function cardinalityKey(relation: Relation, toType: string): string | undefined {
+  return RELATION_SCHEMA[relation.relationType]?.cardinality === 'one'
+    ? JSON.stringify([relation.from, relation.relationType, toType])
+    : undefined;
+}
+
+// Define valid status values for education entities (plus custom values from the type config file)
 const VALID_STATUS_VALUES = ['not_started', 'in_progress', 'complete'];
 
-// Define valid priority values for education entities
+// Define valid priority values for education entities (plus custom values from the type config file)
 const VALID_PRIORITY_VALUES = ['low', 'high'];
 
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+// Typed entity attributes replace free-text "Prefix: value" observations for structured fields
+type AttributeType = 'string' | 'number' | 'date';
+type AttributeValue = string | number;
 
-// Collect tool descriptions from text files
-const toolDescriptions: Record<string, string> = {
-  'startsession': '',
-  'loadcontext': '',
-  'deletecontext': '',
-  'buildcontext': '',
-  'advancedcontext': '',
-  'endsession': '',
-};
-for (const tool of Object.keys(toolDescriptions)) {
-  const descriptionFilePath = path.resolve(
-    __dirname,
-    `student_${tool}.txt`
-  );
-  if (existsSync(descriptionFilePath)) {
-    toolDescriptions[tool] = readFileSync(descriptionFilePath, 'utf-8');
-  }
+interface AttributeDefinition {
+  type: AttributeType;
+  prefix: string; // Legacy observation prefix the attribute is lifted from
 }
 
-// We are storing our memory using entities, relations, and observations in a graph structure
-interface Entity {
-  name: string;
-  entityType: EntityType;
-  observations: string[];
-  embedding?: any; // Changed from Embedding to any to avoid import error
+// Attribute schema for each entity type
+const ENTITY_ATTRIBUTE_SCHEMA: Partial<Record<EntityType, Record<string, AttributeDefinition>>> = {
+  course: {
+    code: { type: 'string', prefix: 'Code:' },
+    location: { type: 'string', prefix: 'Location:' },
+    schedule: { type: 'string', prefix: 'Schedule:' },
+    status: { type: 'string', prefix: 'Status:' },
+    credits: { type: 'number', prefix: 'Credits:' }
+  },
+  assignment: {
+    due: { type: 'date', prefix: 'Due:' },
+    points: { type: 'number', prefix: 'Points:' },
+    instructions: { type: 'string', prefix: 'Instructions:' },
+    category: { type: 'string', prefix: 'Category:' },
+    status: { type: 'string', prefix: 'Status:' },
+    uid: { type: 'string', prefix: 'UID:' },
+    score: { type: 'string', prefix: 'Score:' }     // "45/50", "90%", or points earned out of points
+  },
+  exam: {
+    date: { type: 'date', prefix: 'Date:' },
+    location: { type: 'string', prefix: 'Location:' },
+    format: { type: 'string', prefix: 'Format:' },
+    duration: { type: 'string', prefix: 'Duration:' },
+    points: { type: 'number', prefix: 'Points:' },
+    category: { type: 'string', prefix: 'Category:' },
+    uid: { type: 'string', prefix: 'UID:' },
+    score: { type: 'string', prefix: 'Score:' }
+  },
+  lecture: {
+    date: { type: 'date', prefix: 'Date:' },
+    topic: { type: 'string', prefix: 'Topic:' },
+    location: { type: 'string', prefix: 'Location:' },
+    uid: { type: 'string', prefix: 'UID:' }
+  },
+  term: {
+    startDate: { type: 'date', prefix: 'StartDate:' },
+    endDate: { type: 'date', prefix: 'EndDate:' },
+    status: { type: 'string', prefix: 'Status:' }
+  },
+  concept: {
+    level: { type: 'string', prefix: 'Level:' },
+    // Spaced-repetition state, written by recordReview
+    ease: { type: 'number', prefix: 'Ease:' },
+    interval: { type: 'number', prefix: 'Interval:' },
+    repetitions: { type: 'number', prefix: 'Repetitions:' },
+    lastReviewed: { type: 'date', prefix: 'LastReviewed:' },
+    nextReview: { type: 'date', prefix: 'NextReview:' },
+    // Percentage of quiz answers correct across the questions covering the concept, written by recordQuizAnswers
+    mastery: { type: 'number', prefix: 'Mastery:' }
+  },
+  question: {
+    question: { type: 'string', prefix: 'Question:' },
+    answer: { type: 'string', prefix: 'Answer:' },
+    // Self-quiz results, written by recordQuizAnswers
+    attempts: { type: 'number', prefix: 'Attempts:' },
+    correctAnswers: { type: 'number', prefix: 'CorrectAnswers:' },
+    lastResult: { type: 'string', prefix: 'LastResult:' },
+    lastAnswered: { type: 'date', prefix: 'LastAnswered:' }
+  }
+};
+
+// Custom types read from the type config file, in addition to the built-in ones
+interface TypeConfig {
+  entityTypes: { name: string; description?: string; attributes?: Record<string, AttributeType> }[];
+  relationTypes: ({ name: string; description?: string } & RelationDefinition)[];
+  statusValues: string[];
+  priorityValues: string[];
 }
 
-interface Relation {
-  from: string;
-  to: string;
-  relationType: string;
-  observations?: string[];
+const TYPE_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+// Whether a parsed config value is an object with named fields (not null or an array)
+function isConfigObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
 }
 
-interface KnowledgeGraph {
-  entities: Entity[];
-  relations: Relation[];
+// Whether a parsed config value maps camelCase attribute names to attribute types
+function isAttributeTypeMap(value: unknown): value is Record<string, AttributeType> {
+  return isConfigObject(value) && Object.entries(value).every(([key, type]) =>
+    /^[a-z][A-Za-z0-9]*$/.test(key) && (type === 'string' || type === 'number' || type === 'date'));
 }
 
-// The KnowledgeGraphManager class contains all operations to interact with the knowledge graph
-class KnowledgeGraphManager {
-  private async loadGraph(): Promise<KnowledgeGraph> {
-    try {
-      const fileContent = await fs.readFile(MEMORY_FILE_PATH, 'utf-8');
-      return JSON.parse(fileContent);
-    } catch (error) {
-      // If the file doesn't exist, return an empty graph
-      return {
-        entities: [],
-        relations: []
-      };
-    }
+// Read and validate the type config file (JSON, or YAML for .yaml/.yml paths); a missing file means no custom types.
+// Every problem is reported at once so the file can be fixed in one pass.
+function loadTypeConfig(filePath: string): TypeConfig {
+  const config: TypeConfig = { entityTypes: [], relationTypes: [], statusValues: [], priorityValues: [] };
+  if (!existsSync(filePath)) {
+    return config;
   }
-
-  private async saveGraph(graph: KnowledgeGraph): Promise<void> {
-    await fs.writeFile(MEMORY_FILE_PATH, JSON.stringify(graph, null, 2), 'utf-8');
+  
+  const format = /\.ya?ml$/i.test(filePath) ? 'YAML' : 'JSON';
+  let parsed: unknown;
+  try {
+    const text = readFileSync(filePath, 'utf-8');
+    parsed = format === 'YAML' ? parseYaml(text) : JSON.parse(text);
+  } catch (error) {
+    throw new Error(`Not valid ${format}: ${error instanceof Error ? error.message : String(error)}`);
   }
-
-  // Initialize status and priority entities
-  async initializeStatusAndPriority(): Promise<void> {
-    const graph = await this.loadGraph();
-    
-    // Create status entities if they don't exist
-    for (const statusValue of VALID_STATUS_VALUES) {
-      const statusName = `status:${statusValue}`;
-      if (!graph.entities.some(e => e.name === statusName && e.entityType === 'status')) {
-        graph.entities.push({
-          name: statusName,
-          entityType: 'status' as EntityType,
-          observations: [`A ${statusValue} status value`]
-        });
-      }
+  if (!isConfigObject(parsed)) {
+    throw new Error(`The type config must be a ${format === 'YAML' ? 'YAML mapping' : 'JSON object'}`);
+  }
+  const raw = parsed;
+  
+  const errors: string[] = [];
+  const sections = ['entityTypes', 'relationTypes', 'statusValues', 'priorityValues'];
+  for (const key of Object.keys(raw).filter(key => !sections.includes(key))) {
+    errors.push(`Unknown key '${key}'; expected ${sections.join(', ')}`);
+  }
+  const listOf = (key: string): unknown[] => {
+    const list = raw[key];
+    if (list === undefined) {
+      return [];
     }
-    
-    // Create priority entities if they don't exist
-    for (const priorityValue of VALID_PRIORITY_VALUES) {
-      const priorityName = `priority:${priorityValue}`;
-      if (!graph.entities.some(e => e.name === priorityName && e.entityType === 'priority')) {
-        graph.entities.push({
-          name: priorityName,
-          entityType: 'priority' as EntityType,
-          observations: [`A ${priorityValue} priority value`]
-        });
-      }
+    if (!Array.isArray(list)) {
+      errors.push(`'${key}' must be an array`);
+      return [];
     }
-    
-    await this.saveGraph(graph);
+    return list;
+  };
+  // Entity and relation types are given as a plain name or as an object with a name
+  const entryOf = (section: string, item: unknown): Record<string, unknown> | undefined => {
+    if (typeof item === 'string') {
+      return { name: item };
+    }
+    if (isConfigObject(item)) {
+      return item;
+    }
+    errors.push(`${section}: ${JSON.stringify(item)} must be a name or an object with a name`);
+    return undefined;
+  };
+  // Descriptions are optional text
+  const descriptionOf = (section: string, name: string, description: unknown): description is string | undefined => {
+    if (description === undefined || typeof description === 'string') {
+      return true;
+    }
+    errors.push(`${section}: description of '${name}' must be text`);
+    return false;
+  };
+  // Check a new name against the existing names and the names added so far, returning it when it can be added
+  const checkName = (section: string, name: unknown, existing: string[]): name is string => {
+    if (typeof name !== 'string' || !TYPE_NAME_PATTERN.test(name)) {
+      errors.push(`${section}: ${JSON.stringify(name)} must be a lowercase name of letters, digits, and underscores`);
+      return false;
+    }
+    if (existing.includes(name)) {
+      errors.push(`${section}: '${name}' is already defined`);
+      return false;
+    }
+    return true;
+  };
+  
+  for (const item of listOf('entityTypes')) {
+    const entry = entryOf('entityTypes', item);
+    if (!entry) {
+      continue;
+    }
+    const { name, description, attributes = {} } = entry;
+    if (!checkName('entityTypes', name, [...validEntityTypes, ...config.entityTypes.map(e => e.name)]) ||
+        !descriptionOf('entityTypes', name, description)) {
+      continue;
+    }
+    if (!isAttributeTypeMap(attributes)) {
+      errors.push(`entityTypes: attributes of '${name}' must map camelCase names to "string", "number", or "date"`);
+      continue;
+    }
+    config.entityTypes.push({ name, description, attributes });
   }
-
-  // Helper method to get status of an entity
-  async getEntityStatus(entityName: string): Promise<string | null> {
-    const graph = await this.loadGraph();
-    
-    // Find status relation for this entity
-    const statusRelation = graph.relations.find(r => 
-      r.from === entityName && 
-      r.relationType === 'has_status'
-    );
-    
-    if (statusRelation) {
-      // Extract status value from the status entity name (status:value)
-      return statusRelation.to.split(':')[1];
+  
+  const entityTypes: string[] = [...validEntityTypes, ...config.entityTypes.map(e => e.name)];
+  // loadTypeConfig checks custom entity type names before applyTypeConfig registers them
+  const isKnownType = (type: unknown): type is EntityType => typeof type === 'string' && entityTypes.includes(type);
+  for (const item of listOf('relationTypes')) {
+    const entry = entryOf('relationTypes', item);
+    if (!entry) {
+      continue;
     }
-    
-    return null;
+    const { name, description, from, to, cardinality, symmetric } = entry;
+    if (!checkName('relationTypes', name, [...Object.keys(RELATION_SCHEMA), ...config.relationTypes.map(r => r.name)]) ||
+        !descriptionOf('relationTypes', name, description)) {
+      continue;
+    }
+    const endpoints = [from, to];
+    if (!endpoints.every(types => types === undefined || Array.isArray(types))) {
+      errors.push(`relationTypes: from and to of '${name}' must be arrays of entity types`);
+      continue;
+    }
+    const unknownTypes = endpoints.flatMap(types => Array.isArray(types) ? types : []).filter(type => !isKnownType(type));
+    if (unknownTypes.length > 0) {
+      errors.push(`relationTypes: from and to of '${name}' must be arrays of entity types; unknown: ${unknownTypes.map(type => typeof type === 'string' ? type : JSON.stringify(type)).join(', ')}`);
+      continue;
+    }
+    if (cardinality !== undefined && cardinality !== 'one') {
+      errors.push(`relationTypes: cardinality of '${name}' must be "one" or left out`);
+      continue;
+    }
+    if (symmetric !== undefined && typeof symmetric !== 'boolean') {
+      errors.push(`relationTypes: symmetric of '${name}' must be true or false`);
+      continue;
+    }
+    config.relationTypes.push({
+      name,
+      description,
+      from: Array.isArray(from) ? from.filter(isKnownType) : undefined,
+      to: Array.isArray(to) ? to.filter(isKnownType) : undefined,
+      cardinality: cardinality === 'one' ? cardinality : undefined,
+      symmetric: typeof symmetric === 'boolean' ? symmetric : undefined
+    });
   }
   
-  // Helper method to get priority of an entity
-  async getEntityPriority(entityName: string): Promise<string | null> {
-    const graph = await this.loadGraph();
-    
-    // Find priority relation for this entity
-    const priorityRelation = graph.relations.find(r => 
-      r.from === entityName && 
-      r.relationType === 'has_priority'
-    );
-    
-    if (priorityRelation) {
-      // Extract priority value from the priority entity name (priority:value)
-      return priorityRelation.to.split(':')[1];
+  for (const [key, builtIn, target] of [
+    ['statusValues', VALID_STATUS_VALUES, config.statusValues],
+    ['priorityValues', VALID_PRIORITY_VALUES, config.priorityValues]
+  ] as const) {
+    for (const value of listOf(key)) {
+      if (checkName(key, value, [...builtIn, ...target])) {
+        target.push(value);
+      }
     }
-    
-    return null;
   }
   
-  // Helper method to set status of an entity
-  async setEntityStatus(entityName: string, statusValue: string): Promise<void> {
-    if (!VALID_STATUS_VALUES.includes(statusValue)) {
-      throw new Error(`Invalid status value: ${statusValue}. Valid values are: ${VALID_STATUS_VALUES.join(', ')}`);
+  if (errors.length > 0) {
+    throw new Error(errors.join('; '));
+  }
+  return config;
+}
+
+// Add the custom types of a type config to the built-in ones
+function applyTypeConfig(config: TypeConfig): void {
+  for (const entityType of config.entityTypes) {
+    // loadTypeConfig has checked the name, which makes it a valid custom type from here on
+    const name = entityType.name as CustomEntityType;
+    validEntityTypes.push(name);
+    const attributes = Object.entries(entityType.attributes || {});
+    if (attributes.length > 0) {
+      ENTITY_ATTRIBUTE_SCHEMA[name] = Object.fromEntries(attributes.map(([key, type]) =>
+        [key, { type, prefix: `${key[0].toUpperCase()}${key.slice(1)}:` }]));
     }
-    
-    const graph = await this.loadGraph();
-    
-    // Remove any existing status relations for this entity
-    graph.relations = graph.relations.filter(r => 
-      !(r.from === entityName && r.relationType === 'has_status')
-    );
-    
-    // Add new status relation
-    graph.relations.push({
-      from: entityName,
-      to: `status:${statusValue}`,
-      relationType: 'has_status'
+  }
+  for (const { name, description, ...definition } of config.relationTypes) {
+    RELATION_SCHEMA[name] = definition;
+    VALID_RELATION_TYPES.push(name);
+  }
+  VALID_STATUS_VALUES.push(...config.statusValues);
+  VALID_PRIORITY_VALUES.push(...config.priorityValues);
+}
+
+// The custom types of a type config as a section for the tool descriptions, or '' without any
+function describeTypeConfig(config: TypeConfig): string {
+  const lines: string[] = [];
+  for (const entityType of config.entityTypes) {
+    const attributes = Object.entries(entityType.attributes || {}).map(([key, type]) => `${key} (${type})`);
+    lines.push(`- Entity type ${entityType.name}${entityType.description ? ` - ${entityType.description}` : ''}${attributes.length > 0 ? `; attributes: ${attributes.join(', ')}` : ''}`);
+  }
+  for (const relationType of config.relationTypes) {
+    const endpoints = `${relationType.from?.join(', ') || 'any'} → ${relationType.to?.join(', ') || 'any'}`;
+    const rules = [endpoints, relationType.cardinality === 'one' ? 'at most one' : '', relationType.symmetric ? 'symmetric' : ''].filter(Boolean);
+    lines.push(`- Relation type ${relationType.name}${relationType.description ? ` - ${relationType.description}` : ''} (${rules.join('; ')})`);
+  }
+  if (config.statusValues.length > 0) {
+    lines.push(`- Status values: ${config.statusValues.join(', ')}`);
+  }
+  if (config.priorityValues.length > 0) {
+    lines.push(`- Priority values: ${config.priorityValues.join(', ')}`);
+  }
+  return lines.length > 0 ? `\n\nCustom types from the type config file:\n${lines.join('\n')}` : '';
+}
+
+// Custom types are part of the schema from startup on, so an invalid config stops the server
+let typeConfig: TypeConfig;
+try {
+  typeConfig = loadTypeConfig(TYPES_CONFIG_FILE_PATH);
+  applyTypeConfig(typeConfig);
+} catch (error) {
+  console.error(`Invalid type config ${TYPES_CONFIG_FILE_PATH}: ${error instanceof Error ? error.message : String(error)}`);
+  process.exit(1);
+}
+
+// Date or date-time as wall-clock values
+interface CalendarDateTime {
+  date: string;  // YYYY-MM-DD
+  time?: string; // HH:MM, absent for all-day values
+}
+
+// Validate an IANA timezone name, falling back to the server's timezone
+function resolveTimeZone(timeZone: string | undefined): string {
+  const fallback = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  if (!timeZone) {
+    return fallback;
+  }
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return timeZone;
+  } catch {
+    console.error(`Unknown STUDENT_TIMEZONE '${timeZone}', using ${fallback}`);
+    return fallback;
+  }
+}
+
+// Timezone that wall-clock due dates and exam times are written in and "today" is computed for
+const STUDENT_TIMEZONE = resolveTimeZone(process.env.STUDENT_TIMEZONE);
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const pad2 = (n: number) => String(n).padStart(2, '0');
+
+// Wall-clock formatters by timezone; creating an Intl.DateTimeFormat is far slower than using one
+const wallClockFormats = new Map<string, Intl.DateTimeFormat>();
+
+// Wall-clock date and time of an instant in the student's timezone
+function toStudentDateTime(instant: Date, timeZone: string = STUDENT_TIMEZONE): CalendarDateTime {
+  let format = wallClockFormats.get(timeZone);
+  if (!format) {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
     });
-    
-    await this.saveGraph(graph);
+    wallClockFormats.set(timeZone, format);
+  }
+  const parts = Object.fromEntries(format.formatToParts(instant).map(part => [part.type, part.value]));
+  return { date: `${parts.year}-${parts.month}-${parts.day}`, time: `${parts.hour}:${parts.minute}` };
+}
+
+// Today's date (YYYY-MM-DD) in the student's timezone
+function studentToday(now: Date = new Date()): string {
+  return toStudentDateTime(now).date;
+}
+
+// Instant at which a wall-clock time in the student's timezone occurs
+function fromStudentDateTime(date: string, time: string, seconds: number = 0, timeZone: string = STUDENT_TIMEZONE): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, seconds);
+  
+  // Correct a UTC guess by the zone's offset; the second pass settles DST transitions
+  let instant = wallClock;
+  for (let pass = 0; pass < 2; pass++) {
+    const observed = toStudentDateTime(new Date(instant), timeZone);
+    const [oYear, oMonth, oDay] = observed.date.split('-').map(Number);
+    const [oHour, oMinute] = observed.time!.split(':').map(Number);
+    const observedWallClock = Date.UTC(oYear, oMonth - 1, oDay, oHour, oMinute, seconds);
+    instant += wallClock - observedWallClock;
   }
+  return new Date(instant);
+}
+
+// Whole calendar days from one YYYY-MM-DD date to another
+function calendarDaysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / (1000 * 60 * 60 * 24));
+}
+
+// Parse a time of day such as "14:00", "11:59pm", "9 a.m.", "noon" or "midnight" into HH:MM
+function parseTimeOfDay(value: string): string | undefined {
+  const text = value.trim().toLowerCase();
+  if (text === 'noon') return '12:00';
+  if (text === 'midnight') return '00:00';
   
-  // Helper method to set priority of an entity
-  async setEntityPriority(entityName: string, priorityValue: string): Promise<void> {
-    if (!VALID_PRIORITY_VALUES.includes(priorityValue)) {
-      throw new Error(`Invalid priority value: ${priorityValue}. Valid values are: ${VALID_PRIORITY_VALUES.join(', ')}`);
+  const match = text.match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2}(?:\.\d+)?)?\s*([ap])?\.?(?:m\.?)?$/);
+  if (!match || (match[2] === undefined && !match[3])) {
+    return undefined;
+  }
+  let hour = parseInt(match[1], 10);
+  const minute = match[2] !== undefined ? parseInt(match[2], 10) : 0;
+  if (match[3]) {
+    if (hour < 1 || hour > 12) return undefined;
+    hour = (hour % 12) + (match[3] === 'p' ? 12 : 0);
+  }
+  if (hour > 23 || minute > 59) {
+    return undefined;
+  }
+  return `${pad2(hour)}:${pad2(minute)}`;
+}
+
+// Build a YYYY-MM-DD date, rejecting days that do not exist in the month
+function buildDate(year: number, month: number, day: number): string | undefined {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (month < 1 || month > 12 || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return undefined;
+  }
+  return `${year}-${pad2(month)}-${pad2(day)}`;
+}
+
+// Parse a date value such as "2025-03-01", "2025-03-01 14:00", "2025-03-01T14:00:00Z", "3/1/2025 2pm",
+// "Mar 3 11:59pm" or "Monday, March 3, 2025 at 9:00 AM" into a wall-clock date or date-time.
+// Values with an explicit UTC offset are converted to the student's timezone; a missing year means the current one.
+function parseDateTimeValue(value: string, now: Date = new Date()): CalendarDateTime | undefined {
+  const text = value.trim().replace(/\s+/g, ' ');
+  const currentYear = Number(studentToday(now).slice(0, 4));
+  const withTime = (date: string | undefined, timeText: string | undefined): CalendarDateTime | undefined => {
+    if (!date) return undefined;
+    if (!timeText) return { date };
+    const time = parseTimeOfDay(timeText);
+    return time ? { date, time } : undefined;
+  };
+  
+  // ISO dates and date-times, optionally with seconds and a UTC offset
+  const isoMatch = text.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})(?:[ T](\d{1,2}:\d{2}(?::\d{2}(?:\.\d+)?)?)(Z|[+-]\d{2}:?\d{2})?)?$/i);
+  if (isoMatch) {
+    const [, year, month, day, timeText, offset] = isoMatch;
+    const date = buildDate(Number(year), Number(month), Number(day));
+    if (date && timeText && offset) {
+      const time = parseTimeOfDay(timeText);
+      if (!time) return undefined;
+      const normalizedOffset = offset.toUpperCase() === 'Z' ? 'Z' : `${offset.slice(0, 3)}:${offset.slice(-2)}`;
+      return toStudentDateTime(new Date(`${date}T${time}:00${normalizedOffset}`));
     }
-    
-    const graph = await this.loadGraph();
-    
-    // Remove any existing priority relations for this entity
-    graph.relations = graph.relations.filter(r => 
-      !(r.from === entityName && r.relationType === 'has_priority')
-    );
-    
-    // Add new priority relation
-    graph.relations.push({
-      from: entityName,
-      to: `priority:${priorityValue}`,
-      relationType: 'has_priority'
-    });
-    
-    await this.saveGraph(graph);
+    return withTime(date, timeText);
   }
+  
+  // Numeric month/day dates, e.g. "3/1", "3/1/25" or "03/01/2025 11:59 PM"
+  const numericMatch = text.match(/^(\d{1,2})\/(\d{1,2})(?:\/(\d{2}|\d{4}))?(?:,? (?:at )?(.+))?$/i);
+  if (numericMatch) {
+    const [, month, day, yearText, timeText] = numericMatch;
+    const year = yearText ? (yearText.length === 2 ? 2000 + Number(yearText) : Number(yearText)) : currentYear;
+    return withTime(buildDate(year, Number(month), Number(day)), timeText);
+  }
+  
+  // Month-name dates, e.g. "Mar 3", "March 3rd, 2025 11:59pm" or "3 March 2025"; a leading weekday is ignored
+  const named = text.replace(/^(?:mon|tue|wed|thu|fri|sat|sun)[a-z]*\.?,? /i, '');
+  const monthFirst = named.match(/^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?(?:,? (\d{4}))?(?:,? (?:at )?(.+))?$/i);
+  const dayFirst = named.match(/^(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)\.?(?:,? (\d{4}))?(?:,? (?:at )?(.+))?$/i);
+  const namedMatch = monthFirst
+    ? { monthName: monthFirst[1], day: monthFirst[2], year: monthFirst[3], time: monthFirst[4] }
+    : dayFirst
+      ? { monthName: dayFirst[2], day: dayFirst[1], year: dayFirst[3], time: dayFirst[4] }
+      : undefined;
+  if (namedMatch) {
+    const month = MONTH_NAMES.indexOf(namedMatch.monthName.slice(0, 3).toLowerCase()) + 1;
+    if (month === 0) return undefined;
+    const year = namedMatch.year ? Number(namedMatch.year) : currentYear;
+    return withTime(buildDate(year, month, Number(namedMatch.day)), namedMatch.time);
+  }
+  
+  return undefined;
+}
 
-  async createEntities(entities: Entity[]): Promise<KnowledgeGraph> {
-    const graph = await this.loadGraph();
-    
-    // Validate entity names don't already exist
-    for (const entity of entities) {
-      if (graph.entities.some(e => e.name === entity.name)) {
-        throw new Error(`Entity with name ${entity.name} already exists`);
+// Instant a due date or exam time falls on; date-only values count as the end of that day
+function deadlineInstant(value: CalendarDateTime): Date {
+  return value.time
+    ? fromStudentDateTime(value.date, value.time)
+    : new Date(fromStudentDateTime(value.date, '23:59', 59).getTime() + 999);
+}
+
+// Days remaining (in student calendar days) and overdue state for a deadline
+function describeDeadline(value: CalendarDateTime, now: Date = new Date()): { dueAt: string; daysRemaining: number; isOverdue: boolean; timeRemaining: number } {
+  const instant = deadlineInstant(value);
+  return {
+    dueAt: instant.toISOString(),
+    daysRemaining: calendarDaysBetween(studentToday(now), value.date),
+    isOverdue: instant.getTime() < now.getTime(),
+    timeRemaining: instant.getTime() - now.getTime()
+  };
+}
+
+// Convert a raw value to the attribute's type, normalizing dates to "YYYY-MM-DD" or "YYYY-MM-DD HH:MM"
+function coerceAttributeValue(definition: AttributeDefinition, value: unknown): AttributeValue | undefined {
+  switch (definition.type) {
+    case 'number': {
+      if (typeof value === 'number') {
+        return Number.isFinite(value) ? value : undefined;
       }
-      validateEntityType(entity.entityType);
+      const match = String(value).trim().match(/^-?\d+(?:\.\d+)?/);
+      return match ? parseFloat(match[0]) : undefined;
+    }
+    case 'date': {
+      const parsed = parseDateTimeValue(String(value).trim());
+      return parsed ? (parsed.time ? `${parsed.date} ${parsed.time}` : parsed.date) : undefined;
+    }
+    default: {
+      const text = String(value).trim();
+      return text ? text : undefined;
     }
-    
-    // Add new entities
-    graph.entities.push(...entities);
-    
-    // Save updated graph
-    await this.saveGraph(graph);
-    return graph;
   }
+}
 
-  async createRelations(relations: Relation[]): Promise<KnowledgeGraph> {
-    const graph = await this.loadGraph();
-    
-    // Validate relations
-    for (const relation of relations) {
-      // Check if entities exist
-      if (!graph.entities.some(e => e.name === relation.from)) {
-        throw new Error(`Entity '${relation.from}' not found`);
-      }
-      if (!graph.entities.some(e => e.name === relation.to)) {
-        throw new Error(`Entity '${relation.to}' not found`);
-      }
-      if (!VALID_RELATION_TYPES.includes(relation.relationType)) {
-        throw new Error(`Invalid relation type: ${relation.relationType}. Valid types are: ${VALID_RELATION_TYPES.join(', ')}`);
-      }
-      
-      // Check if relation already exists
-      if (graph.relations.some(r => 
-        r.from === relation.from && 
-        r.to === relation.to && 
-        r.relationType === relation.relationType
-      )) {
-        throw new Error(`Relation from '${relation.from}' to '${relation.to}' with type '${relation.relationType}' already exists`);
-      }
+// Validate attributes against the schema for an entity type; null removes an attribute
+function validateAttributes(entityType: EntityType, attributes: Record<string, unknown>): Record<string, AttributeValue | null> {
+  const schema = ENTITY_ATTRIBUTE_SCHEMA[entityType] || {};
+  const validated: Record<string, AttributeValue | null> = {};
+  for (const [key, value] of Object.entries(attributes)) {
+    const definition = schema[key];
+    if (!definition) {
+      const validKeys = Object.keys(schema);
+      throw new Error(`Invalid attribute '${key}' for entity type ${entityType}. Valid attributes are: ${validKeys.length > 0 ? validKeys.join(', ') : 'none'}`);
     }
-    
-    // Add relations
-    graph.relations.push(...relations);
-    
-    // Save updated graph
-    await this.saveGraph(graph);
-    return graph;
+    if (value === null) {
+      validated[key] = null;
+      continue;
+    }
+    const coerced = coerceAttributeValue(definition, value);
+    if (coerced === undefined) {
+      throw new Error(`Invalid ${definition.type} value for attribute '${key}' on ${entityType}: ${JSON.stringify(value)}`);
+    }
+    validated[key] = coerced;
   }
+  return validated;
+}
 
-  async addObservations(entityName: string, observations: string[]): Promise<KnowledgeGraph> {
-    const graph = await this.loadGraph();
-    
-    // Find the entity
-    const entity = graph.entities.find(e => e.name === entityName);
-    if (!entity) {
-      throw new Error(`Entity '${entityName}' not found`);
+// Move legacy "Prefix: value" observations that match the entity's attribute schema into attributes.
+// Existing attributes win; observations whose values cannot be parsed are left in place.
+function liftObservationsToAttributes(entity: Entity): { lifted: string[]; unparsed: string[] } {
+  const schema = ENTITY_ATTRIBUTE_SCHEMA[entity.entityType] || {};
+  const lifted: string[] = [];
+  const unparsed: string[] = [];
+  for (const [key, definition] of Object.entries(schema)) {
+    const observation = entity.observations.find(o => o.startsWith(definition.prefix));
+    if (!observation) continue;
+    if (entity.attributes?.[key] === undefined) {
+      const value = coerceAttributeValue(definition, observation.substring(definition.prefix.length));
+      if (value === undefined) {
+        unparsed.push(observation);
+        continue;
+      }
+      entity.attributes = { ...entity.attributes, [key]: value };
     }
-    
-    // Add observations
-    entity.observations.push(...observations);
-    
-    // Save updated graph
-    await this.saveGraph(graph);
-    return graph;
+    entity.observations = entity.observations.filter(o => o !== observation);
+    lifted.push(observation);
   }
+  return { lifted, unparsed };
+}
 
-  async deleteEntities(entityNames: string[]): Promise<void> {
-    const graph = await this.loadGraph();
-    
-    // Remove the entities
-    graph.entities = graph.entities.filter(e => !entityNames.includes(e.name));
-    
-    // Remove relations that involve the deleted entities
-    graph.relations = graph.relations.filter(
-      r => !entityNames.includes(r.from) && !entityNames.includes(r.to)
-    );
-    
-    await this.saveGraph(graph);
+// Get an attribute value, falling back to a legacy prefixed observation for entities not yet migrated
+function getAttribute(entity: Entity, key: string): AttributeValue | undefined {
+  if (entity.attributes?.[key] !== undefined) {
+    return entity.attributes[key];
   }
+  const definition = ENTITY_ATTRIBUTE_SCHEMA[entity.entityType]?.[key];
+  const legacyValue = definition ? findObservationValue(entity.observations, definition.prefix) : undefined;
+  return legacyValue !== undefined ? coerceAttributeValue(definition!, legacyValue) : undefined;
+}
 
-  async deleteObservations(deletions: { entityName: string; observations: string[] }[]): Promise<void> {
-    const graph = await this.loadGraph();
-    
-    for (const deletion of deletions) {
-      const entity = graph.entities.find(e => e.name === deletion.entityName);
-      if (entity) {
-        // Remove the specified observations
-        entity.observations = entity.observations.filter(
-          o => !deletion.observations.includes(o)
-        );
-      }
+// Get an attribute value as text
+function getAttributeText(entity: Entity, key: string): string | undefined {
+  const value = getAttribute(entity, key);
+  return value !== undefined ? String(value) : undefined;
+}
+
+// Get a date attribute as a wall-clock value. Values that are present but cannot be parsed
+// are reported in warnings instead of silently dropping the date.
+function getAttributeDateTime(entity: Entity, key: string, warnings?: string[]): CalendarDateTime | undefined {
+  const definition = ENTITY_ATTRIBUTE_SCHEMA[entity.entityType]?.[key];
+  const raw = entity.attributes?.[key] ?? (definition ? findObservationValue(entity.observations, definition.prefix) : undefined);
+  if (raw === undefined) {
+    return undefined;
+  }
+  const value = parseDateTimeValue(String(raw));
+  if (!value) {
+    warnings?.push(`${entity.entityType} '${entity.name}' has an unrecognized ${key} '${raw}'`);
+  }
+  return value;
+}
+
+// Get a date attribute as the instant it falls due (end of day for date-only values)
+function getAttributeDate(entity: Entity, key: string, warnings?: string[]): Date | undefined {
+  const value = getAttributeDateTime(entity, key, warnings);
+  return value ? deadlineInstant(value) : undefined;
+}
+
+// Sort comparator for entities by a date attribute; entities without the date keep their order
+function compareByDateAttribute(key: string): (a: Entity, b: Entity) => number {
+  return (a, b) => {
+    const aDate = getAttributeDate(a, key);
+    const bDate = getAttributeDate(b, key);
+    if (aDate && bDate) {
+      return aDate.getTime() - bDate.getTime();
     }
-    
-    await this.saveGraph(graph);
+    return 0;
+  };
+}
+
+// Render an entity's attributes and observations on one line, e.g. "Due: 2025-03-01, Points: 50, Started early"
+function describeEntity(entity: Entity): string {
+  const schema = ENTITY_ATTRIBUTE_SCHEMA[entity.entityType] || {};
+  const attributeText = Object.entries(entity.attributes || {})
+    .map(([key, value]) => `${schema[key]?.prefix || `${key}:`} ${value}`);
+  return [...attributeText, ...entity.observations].join(", ");
+}
+
+// Letter grade scale: minimum percentage for each letter and its GPA points
+const LETTER_GRADE_SCALE = [
+  { letter: 'A', minPercentage: 93, points: 4.0 },
+  { letter: 'A-', minPercentage: 90, points: 3.7 },
+  { letter: 'B+', minPercentage: 87, points: 3.3 },
+  { letter: 'B', minPercentage: 83, points: 3.0 },
+  { letter: 'B-', minPercentage: 80, points: 2.7 },
+  { letter: 'C+', minPercentage: 77, points: 2.3 },
+  { letter: 'C', minPercentage: 73, points: 2.0 },
+  { letter: 'C-', minPercentage: 70, points: 1.7 },
+  { letter: 'D+', minPercentage: 67, points: 1.3 },
+  { letter: 'D', minPercentage: 63, points: 1.0 },
+  { letter: 'D-', minPercentage: 60, points: 0.7 },
+  { letter: 'F', minPercentage: 0, points: 0.0 }
+];
+
+// Get the value of the first observation with the given prefix (e.g. "Score:"), keeping any colons in the value
+function findObservationValue(observations: string[], prefix: string): string | undefined {
+  const observation = observations.find(o => o.startsWith(prefix));
+  return observation ? observation.substring(prefix.length).trim() : undefined;
+}
+
+// Parse a recorded score attribute such as "45/50", "90%" or "45" combined with the points attribute
+function parseScore(entity: Entity): { earned: number; possible: number } | null {
+  const scoreText = getAttributeText(entity, 'score');
+  if (!scoreText) {
+    return null;
   }
 
-  async deleteRelations(relations: Relation[]): Promise<void> {
-    const graph = await this.loadGraph();
-    
-    // Remove specified relations
-    graph.relations = graph.relations.filter(r => 
-      !relations.some(toDelete => 
-        r.from === toDelete.from && 
-        r.to === toDelete.to && 
-        r.relationType === toDelete.relationType
-      )
-    );
-    
-    await this.saveGraph(graph);
+  const fractionMatch = scoreText.match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)/);
+  if (fractionMatch) {
+    const possible = parseFloat(fractionMatch[2]);
+    return possible > 0 ? { earned: parseFloat(fractionMatch[1]), possible } : null;
   }
 
-  async readGraph(): Promise<KnowledgeGraph> {
-    return this.loadGraph();
+  const percentMatch = scoreText.match(/^(\d+(?:\.\d+)?)\s*%/);
+  if (percentMatch) {
+    return { earned: parseFloat(percentMatch[1]), possible: 100 };
   }
 
-  async searchNodes(query: string): Promise<KnowledgeGraph> {
-    const graph = await this.loadGraph();
-    
-    // Split query into search terms
-    const terms = query.toLowerCase().split(/\s+/);
-    
-    // Find matching entities
-    const matchingEntityNames = new Set<string>();
-    
-    for (const entity of graph.entities) {
-      // Check if all terms match
-      const matchesAllTerms = terms.every(term => {
-        // Check entity name
-        if (entity.name.toLowerCase().includes(term)) {
-          return true;
-        }
-        
-        // Check entity type
-        if (entity.entityType.toLowerCase().includes(term)) {
-          return true;
-        }
-        
-        // Check observations
-        for (const observation of entity.observations) {
-          if (observation.toLowerCase().includes(term)) {
-            return true;
-          }
-        }
-        
-        return false;
-      });
-      
-      if (matchesAllTerms) {
-        matchingEntityNames.add(entity.name);
+  const earnedMatch = scoreText.match(/^(\d+(?:\.\d+)?)/);
+  const possible = Number(getAttribute(entity, 'points'));
+  if (earnedMatch && possible > 0) {
+    return { earned: parseFloat(earnedMatch[1]), possible };
+  }
+
+  return null;
+}
+
+// Parse category weights such as "Homework 30%, Midterm 30%, Final 40%" from grading scheme observations
+function parseGradingWeights(observations: string[]): { category: string; weight: number }[] {
+  const weights: { category: string; weight: number }[] = [];
+  for (const observation of observations) {
+    const text = observation.replace(/^Weights?:/i, '');
+    for (const match of text.matchAll(/([A-Za-z][A-Za-z0-9 &/_-]*?)\s*[:=-]?\s*(\d+(?:\.\d+)?)\s*%/g)) {
+      const category = match[1].trim();
+      if (!weights.some(w => w.category.toLowerCase() === category.toLowerCase())) {
+        weights.push({ category, weight: parseFloat(match[2]) });
       }
     }
-    
-    // Find relations between matching entities
-    const matchingRelations = graph.relations.filter(r => 
-      matchingEntityNames.has(r.from) && matchingEntityNames.has(r.to)
-    );
-    
-    // Return matching entities and their relations
-    return {
-      entities: graph.entities.filter(e => matchingEntityNames.has(e.name)),
-      relations: matchingRelations
-    };
   }
+  return weights;
+}
 
-  async openNodes(names: string[]): Promise<KnowledgeGraph> {
-    const graph = await this.loadGraph();
-    
-    // Find the specified entities
-    const entities = graph.entities.filter(e => names.includes(e.name));
-    
-    // Find relations between the specified entities
-    const relations = graph.relations.filter(r => 
-      names.includes(r.from) && names.includes(r.to)
-    );
-    
-    return {
-      entities,
-      relations
-    };
+// Convert a percentage to a letter grade and GPA points using LETTER_GRADE_SCALE
+function percentageToLetterGrade(percentage: number): { letter: string; points: number } {
+  const grade = LETTER_GRADE_SCALE.find(g => percentage >= g.minPercentage) || LETTER_GRADE_SCALE[LETTER_GRADE_SCALE.length - 1];
+  return { letter: grade.letter, points: grade.points };
+}
+
+// Resolve a target grade given as a letter ("B+") or a percentage (85, "85%") to its minimum percentage
+function parseTargetGrade(target: string | number): { letter: string | null; percentage: number } {
+  const letterGrade = LETTER_GRADE_SCALE.find(g => g.letter === String(target).trim().toUpperCase());
+  if (letterGrade) {
+    return { letter: letterGrade.letter, percentage: letterGrade.minPercentage };
+  }
+  
+  const percentage = parseFloat(String(target));
+  if (Number.isNaN(percentage) || percentage < 0) {
+    throw new Error(`Invalid target grade: ${target}. Use a letter grade (${LETTER_GRADE_SCALE.map(g => g.letter).join(', ')}) or a percentage`);
   }
+  return { letter: null, percentage };
+}
 
-  // Get summary of course including lectures, assignments, exams, textbooks
-  async getCourseOverview(courseName: string): Promise<any> {
-    const graph = await this.loadGraph();
-    
-    // Find the course
-    const course = graph.entities.find(e => e.name === courseName && e.entityType === 'course');
-    if (!course) {
-      throw new Error(`Course '${courseName}' not found`);
+// Review outcomes accepted by the spaced-repetition scheduler, mapped to SM-2 response quality (0-5)
+const REVIEW_OUTCOME_QUALITY: Record<string, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5
+};
+const VALID_REVIEW_OUTCOMES = Object.keys(REVIEW_OUTCOME_QUALITY);
+
+// SM-2 defaults for concepts that have never been reviewed
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+interface ReviewState {
+  ease: number;
+  interval: number;      // Days until the next review
+  repetitions: number;   // Consecutive successful reviews
+  lastReviewed?: string; // YYYY-MM-DD
+  nextReview?: string;   // YYYY-MM-DD
+}
+
+// Read the spaced-repetition state stored in a concept's attributes
+function parseReviewState(concept: Entity): ReviewState {
+  const ease = Number(getAttribute(concept, 'ease'));
+  const interval = Number(getAttribute(concept, 'interval'));
+  const repetitions = Number(getAttribute(concept, 'repetitions'));
+  return {
+    ease: Number.isFinite(ease) ? ease : DEFAULT_EASE,
+    interval: Number.isFinite(interval) ? Math.round(interval) : 0,
+    repetitions: Number.isFinite(repetitions) ? Math.round(repetitions) : 0,
+    lastReviewed: getAttributeText(concept, 'lastReviewed'),
+    nextReview: getAttributeText(concept, 'nextReview')
+  };
+}
+
+// Apply one review to a state using the SM-2 algorithm
+function scheduleReview(state: ReviewState, outcome: string, reviewDate: Date): ReviewState {
+  const quality = REVIEW_OUTCOME_QUALITY[outcome];
+  let { ease, interval, repetitions } = state;
+  
+  if (quality < 3) {
+    // Failed recall starts the sequence again
+    repetitions = 0;
+    interval = 1;
+  } else {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * ease);
+    repetitions += 1;
+  }
+  ease = Math.max(MIN_EASE, ease + 0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02));
+  
+  const lastReviewed = studentToday(reviewDate);
+  
+  return {
+    ease: Math.round(ease * 100) / 100,
+    interval,
+    repetitions,
+    lastReviewed,
+    nextReview: addDays(lastReviewed, interval)
+  };
+}
+
+// Replace an assignment's or exam's score attribute, validating the score first
+function applyScore(entity: Entity, earned: number, possible: number): void {
+  if (!Number.isFinite(earned) || earned < 0) {
+    throw new Error(`Invalid earned score for '${entity.name}': ${earned}`);
+  }
+  if (!Number.isFinite(possible) || possible <= 0) {
+    throw new Error(`Invalid possible score for '${entity.name}': ${possible}. Must be greater than 0`);
+  }
+  // Only assignments and exams carry scores
+  if (entity.entityType !== 'assignment' && entity.entityType !== 'exam') {
+    throw new Error(`Entity '${entity.name}' is a ${entity.entityType}. Scores can only be recorded for assignments and exams`);
+  }
+  // Lift a legacy "Score:" observation so it is not left behind next to the attribute
+  liftObservationsToAttributes(entity);
+  applyAttributeUpdate(entity, { score: `${earned}/${possible}` });
+}
+
+// Apply one review outcome to a concept, replacing its scheduling attributes and keeping a history entry
+function applyReview(concept: Entity, outcome: string, reviewDate: Date): { previousState: ReviewState; reviewState: ReviewState } {
+  if (!VALID_REVIEW_OUTCOMES.includes(outcome)) {
+    throw new Error(`Invalid review outcome: ${outcome}. Valid outcomes are: ${VALID_REVIEW_OUTCOMES.join(', ')}`);
+  }
+  // Lift state still held in legacy observations so it is not left behind next to the new attributes
+  liftObservationsToAttributes(concept);
+  const previousState = parseReviewState(concept);
+  const reviewState = scheduleReview(previousState, outcome, reviewDate);
+
+  applyAttributeUpdate(concept, {
+    ease: reviewState.ease,
+    interval: reviewState.interval,
+    repetitions: reviewState.repetitions,
+    lastReviewed: reviewState.lastReviewed,
+    nextReview: reviewState.nextReview
+  });
+  concept.observations.push(`Reviewed: ${reviewState.lastReviewed} ${outcome}`);
+  return { previousState, reviewState };
+}
+
+// Questions answered correctly less often than this are reported as weak
+const WEAK_QUESTION_ACCURACY = 0.6;
+
+// Read self-quiz results stored in a question's attributes
+function parseQuestionStats(question: Entity): { attempts: number; correct: number; accuracy: number | null; lastResult?: string } {
+  const attempts = Number(getAttribute(question, 'attempts')) || 0;
+  const correct = Number(getAttribute(question, 'correctAnswers')) || 0;
+  return {
+    attempts,
+    correct,
+    accuracy: attempts > 0 ? correct / attempts : null,
+    lastResult: getAttributeText(question, 'lastResult')
+  };
+}
+
+// A question is weak if its last answer was wrong or its accuracy is below WEAK_QUESTION_ACCURACY
+function isWeakQuestion(question: Entity): boolean {
+  const stats = parseQuestionStats(question);
+  return stats.attempts > 0 && (stats.lastResult === 'incorrect' || stats.accuracy! < WEAK_QUESTION_ACCURACY);
+}
+
+// Normalize free text such as answers and entity names for comparison
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Return a shuffled copy of an array (Fisher-Yates)
+function shuffle<T>(items: T[]): T[] {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+}
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Collect tool descriptions from text files
+const toolDescriptions: Record<string, string> = {
+  'startsession': '',
+  'loadcontext': '',
+  'deletecontext': '',
+  'buildcontext': '',
+  'advancedcontext': '',
+  'endsession': '',
+  'quiz': '',
+  'calendar': '',
+  'history': '',
+  'snapshot': '',
+  'validate': '',
+};
+for (const tool of Object.keys(toolDescriptions)) {
+  const descriptionFilePath = path.resolve(
+    __dirname,
+    `student_${tool}.txt`
+  );
+  if (existsSync(descriptionFilePath)) {
+    toolDescriptions[tool] = readFileSync(descriptionFilePath, 'utf-8');
+  }
+}
+
+// Tell the tools that create, load, and query entities about the custom types
+for (const tool of ['buildcontext', 'loadcontext', 'advancedcontext']) {
+  toolDescriptions[tool] += describeTypeConfig(typeConfig);
+}
+
+// We are storing our memory using entities, relations, and observations in a graph structure
+interface Entity {
+  name: string;
+  entityType: EntityType;
+  observations: string[];
+  attributes?: Record<string, AttributeValue>; // Typed values following ENTITY_ATTRIBUTE_SCHEMA
+  embedding?: EntityEmbedding; // Only present in storage; loaded graphs have it split off
+}
+
+// A stored entity embedding: the provider that computed it, a hash of the text it was computed from, and the
+// vector as base64 signed bytes
+interface EntityEmbedding {
+  provider: string;
+  textHash: string;
+  vector: string;
+}
+
+interface Relation {
+  from: string;
+  to: string;
+  relationType: string;
+  observations?: string[];
+}
+
+interface KnowledgeGraph {
+  entities: Entity[];
+  relations: Relation[];
+}
+
+interface CalendarEvent {
+  uid: string;
+  component: 'VEVENT' | 'VTODO';
+  summary: string;
+  description?: string;
+  location?: string;
+  categories: string[];
+  start?: CalendarDateTime;
+  end?: CalendarDateTime;
+  due?: CalendarDateTime;
+  rrule?: Record<string, string>;
+  exdates: string[]; // YYYY-MM-DD
+}
+
+// Recurring events are expanded to at most this many occurrences, walking at most this many days
+const MAX_CALENDAR_OCCURRENCES = 200;
+const MAX_CALENDAR_RECURRENCE_DAYS = 5 * 366;
+
+const ICAL_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Add days to a YYYY-MM-DD date
+function addDays(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+// Format a calendar value the way dates are written in observations ("2025-03-01" or "2025-03-01 14:00")
+function formatCalendarDateTime(value: CalendarDateTime): string {
+  return value.time ? `${value.date} ${value.time}` : value.date;
+}
+
+// Undo RFC 5545 text escaping
+function unescapeICalText(value: string): string {
+  return value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+}
+
+// Parse a DATE or DATE-TIME property value such as "20250301", "20250301T140000" or "20250301T140000Z".
+// UTC times and times with a known TZID are converted to the student's timezone.
+function parseICalDateTime(value: string, tzid?: string): CalendarDateTime | undefined {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) {
+    return undefined;
+  }
+  const [, year, month, day, hour, minute, , utc] = match;
+  if (hour === undefined) {
+    return { date: `${year}-${month}-${day}` };
+  }
+  if (utc) {
+    return toStudentDateTime(new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute))));
+  }
+  if (tzid && tzid !== STUDENT_TIMEZONE) {
+    try {
+      return toStudentDateTime(fromStudentDateTime(`${year}-${month}-${day}`, `${hour}:${minute}`, 0, tzid));
+    } catch {
+      // Unknown TZID names are treated as the student's own timezone
     }
+  }
+  return { date: `${year}-${month}-${day}`, time: `${hour}:${minute}` };
+}
+
+// Parse the VEVENT and VTODO components of an iCalendar file
+function parseICalendar(content: string): CalendarEvent[] {
+  // Unfold continuation lines before splitting
+  const lines = content.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+  const events: CalendarEvent[] = [];
+  let current: CalendarEvent | null = null;
+  let nestedDepth = 0;
+  
+  for (const line of lines) {
+    if (!line.trim()) continue;
     
-    // Find term this course belongs to
-    let term: Entity | undefined;
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'part_of' && relation.from === courseName) {
-        const potentialTerm = graph.entities.find(e => e.name === relation.to && e.entityType === 'term');
-        if (potentialTerm) {
-          term = potentialTerm;
-          break;
-        }
+    // Split "NAME;PARAM=...:VALUE" at the first colon outside quoted parameter values
+    let separator = -1;
+    let inQuotes = false;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      if (line[i] === ':' && !inQuotes) {
+        separator = i;
+        break;
       }
     }
+    if (separator === -1) continue;
     
-    // Find professor who teaches this course
-    let professor: Entity | undefined;
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'taught_by' && relation.from === courseName) {
-        professor = graph.entities.find(e => e.name === relation.to && e.entityType === 'professor');
-        if (professor) {
-          break;
-        }
-      }
-    }
+    const [name, ...params] = line.substring(0, separator).split(';');
+    const property = name.toUpperCase();
+    const value = line.substring(separator + 1);
+    const tzid = params.find(param => param.toUpperCase().startsWith('TZID='))?.substring(5).replace(/"/g, '');
     
-    // Find lectures for this course
-    const lectures: Entity[] = [];
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'part_of' && relation.to === courseName) {
-        const lecture = graph.entities.find(e => e.name === relation.from && e.entityType === 'lecture');
-        if (lecture) {
-          lectures.push(lecture);
-        }
+    if (property === 'BEGIN') {
+      if (current) {
+        // Skip nested components such as VALARM
+        nestedDepth++;
+      } else if (value === 'VEVENT' || value === 'VTODO') {
+        current = { uid: '', component: value, summary: '', categories: [], exdates: [] };
       }
+      continue;
     }
-    
-    // Sort lectures by date if available
-    lectures.sort((a, b) => {
-      const aDateObs = a.observations.find(o => o.startsWith('Date:'));
-      const bDateObs = b.observations.find(o => o.startsWith('Date:'));
-      
-      if (aDateObs && bDateObs) {
-        const aDate = new Date(aDateObs.split(':')[1].trim());
-        const bDate = new Date(bDateObs.split(':')[1].trim());
-        return aDate.getTime() - bDate.getTime();
-      }
-      return 0;
-    });
-    
-    // Find assignments for this course
-    const assignments: Entity[] = [];
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'assigned_in' && relation.to === courseName) {
-        const assignment = graph.entities.find(e => e.name === relation.from && e.entityType === 'assignment');
-        if (assignment) {
-          assignments.push(assignment);
+    if (property === 'END') {
+      if (nestedDepth > 0) {
+        nestedDepth--;
+      } else if (current && value === current.component) {
+        if (current.uid) {
+          events.push(current);
         }
+        current = null;
       }
+      continue;
     }
+    if (!current || nestedDepth > 0) continue;
     
-    // Sort assignments by due date if available
-    assignments.sort((a, b) => {
-      const aDueDateObs = a.observations.find(o => o.startsWith('Due:'));
-      const bDueDateObs = b.observations.find(o => o.startsWith('Due:'));
-      
-      if (aDueDateObs && bDueDateObs) {
-        const aDate = new Date(aDueDateObs.split(':')[1].trim());
-        const bDate = new Date(bDueDateObs.split(':')[1].trim());
-        return aDate.getTime() - bDate.getTime();
-      }
-      return 0;
-    });
-    
-    // Find exams for this course
-    const exams: Entity[] = [];
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'scheduled_for' && relation.from === courseName) {
-        const exam = graph.entities.find(e => e.name === relation.to && e.entityType === 'exam');
-        if (exam) {
-          exams.push(exam);
+    switch (property) {
+      case 'UID':
+        current.uid = value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeICalText(value).trim();
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeICalText(value).trim() || undefined;
+        break;
+      case 'LOCATION':
+        current.location = unescapeICalText(value).trim() || undefined;
+        break;
+      case 'CATEGORIES':
+        current.categories.push(...unescapeICalText(value).split(',').map(c => c.trim()).filter(Boolean));
+        break;
+      case 'DTSTART':
+        current.start = parseICalDateTime(value, tzid);
+        break;
+      case 'DTEND':
+        current.end = parseICalDateTime(value, tzid);
+        break;
+      case 'DUE':
+        current.due = parseICalDateTime(value, tzid);
+        break;
+      case 'RRULE':
+        current.rrule = Object.fromEntries(value.split(';').map(part => {
+          // Rule names and values are case-insensitive (RFC 5545 3.3.10)
+          const [key, ruleValue] = part.split('=');
+          return [key.toUpperCase(), (ruleValue || '').toUpperCase()];
+        }));
+        break;
+      case 'EXDATE':
+        for (const exdate of value.split(',')) {
+          const parsed = parseICalDateTime(exdate, tzid);
+          if (parsed) current.exdates.push(parsed.date);
         }
-      }
+        break;
     }
+  }
+  
+  return events;
+}
+
+// Expand an event into its occurrence dates, following DAILY and WEEKLY recurrence rules
+function expandCalendarEvent(event: CalendarEvent): { uid: string; date: string }[] {
+  const anchor = event.start || event.due;
+  if (!anchor) {
+    return [];
+  }
+  if (!event.rrule || (event.rrule.FREQ !== 'DAILY' && event.rrule.FREQ !== 'WEEKLY')) {
+    return [{ uid: event.uid, date: anchor.date }];
+  }
+  
+  const interval = Math.max(1, parseInt(event.rrule.INTERVAL || '1', 10) || 1);
+  const count = event.rrule.COUNT ? parseInt(event.rrule.COUNT, 10) : undefined;
+  const until = event.rrule.UNTIL ? parseICalDateTime(event.rrule.UNTIL)?.date : undefined;
+  const anchorWeekday = new Date(`${anchor.date}T00:00:00Z`).getUTCDay();
+  const byDay = (event.rrule.BYDAY || '').split(',').map(d => ICAL_WEEKDAYS.indexOf(d.slice(-2))).filter(d => d >= 0);
+  if (byDay.length === 0) {
+    byDay.push(anchorWeekday);
+  }
+  // Weeks for INTERVAL start on WKST, Monday unless the rule says otherwise
+  const weekStart = ICAL_WEEKDAYS.includes(event.rrule.WKST) ? ICAL_WEEKDAYS.indexOf(event.rrule.WKST) : 1;
+  const anchorWeekOffset = (anchorWeekday - weekStart + 7) % 7;
+  
+  const occurrences: { uid: string; date: string }[] = [];
+  let generated = 0;
+  // Walk day by day from the anchor; DTSTART is always the first occurrence, and COUNT includes
+  // occurrences later removed by EXDATE
+  for (let offset = 0; generated < (count ?? MAX_CALENDAR_OCCURRENCES) && occurrences.length < MAX_CALENDAR_OCCURRENCES; offset++) {
+    const date = addDays(anchor.date, offset);
+    if (until && date > until) break;
+    if (offset > MAX_CALENDAR_RECURRENCE_DAYS || (!count && !until && offset > 366)) break;
     
-    // Sort exams by date if available
-    exams.sort((a, b) => {
-      const aDateObs = a.observations.find(o => o.startsWith('Date:'));
-      const bDateObs = b.observations.find(o => o.startsWith('Date:'));
-      
-      if (aDateObs && bDateObs) {
-        const aDate = new Date(aDateObs.split(':')[1].trim());
-        const bDate = new Date(bDateObs.split(':')[1].trim());
-        return aDate.getTime() - bDate.getTime();
-      }
-      return 0;
-    });
-    
-    // Find concepts covered in this course
-    const concepts: Entity[] = [];
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'covers' && relation.from === courseName) {
-        const concept = graph.entities.find(e => e.name === relation.to && e.entityType === 'concept');
-        if (concept) {
-          concepts.push(concept);
-        }
-      }
-    }
+    const matches = offset === 0 || (event.rrule.FREQ === 'DAILY'
+      ? offset % interval === 0
+      : Math.floor((offset + anchorWeekOffset) / 7) % interval === 0 && byDay.includes((anchorWeekday + offset) % 7));
+    if (!matches) continue;
     
-    // Find resources for this course (textbooks, articles, etc.)
-    const resources: Entity[] = [];
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'helps_with' && relation.to === courseName) {
-        const resource = graph.entities.find(e => e.name === relation.from && e.entityType === 'resource');
-        if (resource) {
-          resources.push(resource);
-        }
-      }
+    generated++;
+    if (!event.exdates.includes(date)) {
+      occurrences.push({ uid: `${event.uid}/${date}`, date });
     }
-    
-    // Find notes for this course
-    const notes: Entity[] = [];
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'created_for' && relation.to === courseName) {
-        const note = graph.entities.find(e => e.name === relation.from && e.entityType === 'note');
-        if (note) {
-          notes.push(note);
-        }
-      }
+  }
+  return occurrences;
+}
+
+// Decide whether a calendar entry is an assignment, exam, or lecture from its component, title, and categories
+function classifyCalendarEvent(event: CalendarEvent, defaultType: EntityType): EntityType {
+  if (event.component === 'VTODO' || event.due) {
+    return 'assignment';
+  }
+  const text = [event.summary, ...event.categories].join(' ');
+  if (/\b(assignment|homework|hw\d*|due|problem set|pset|project|essay|report|submission)\b/i.test(text)) {
+    return 'assignment';
+  }
+  if (/\b(exam|midterm|final|quiz|test)\b/i.test(text)) {
+    return 'exam';
+  }
+  return defaultType;
+}
+
+// Apply RFC 5545 text escaping
+function escapeICalText(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Fold a content line into chunks of at most 75 octets, without splitting multi-byte characters
+function foldICalLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let chunkBytes = 0;
+  for (const char of line) {
+    const charBytes = Buffer.byteLength(char, 'utf-8');
+    // Continuation lines start with a space, which counts towards their 75 octets
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (chunkBytes + charBytes > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      chunkBytes = 0;
     }
-    
-    // Extract course info from observations
-    const courseCode = course.observations.find(o => o.startsWith('Code:'))?.split(':')[1].trim() || 'N/A';
-    const courseLocation = course.observations.find(o => o.startsWith('Location:'))?.split(':')[1].trim() || 'N/A';
-    const courseSchedule = course.observations.find(o => o.startsWith('Schedule:'))?.split(':')[1].trim() || 'N/A';
-    const courseStatus = course.observations.find(o => o.startsWith('Status:'))?.split(':')[1].trim() || 'N/A';
-    
-    return {
-      course,
-      term,
-      professor,
-      info: {
-        code: courseCode,
-        location: courseLocation,
-        schedule: courseSchedule,
-        status: courseStatus
-      },
-      summary: {
-        lectureCount: lectures.length,
-        assignmentCount: assignments.length,
-        examCount: exams.length,
-        conceptCount: concepts.length,
-        resourceCount: resources.length,
-        noteCount: notes.length
-      },
-      lectures,
-      assignments,
-      exams,
-      concepts,
-      resources,
-      notes
-    };
+    chunk += char;
+    chunkBytes += charBytes;
   }
+  chunks.push(chunk);
+  return chunks.join('\r\n ');
+}
 
-  // Returns assignments and exams with approaching due dates
-  async getUpcomingDeadlines(termName?: string, courseName?: string, daysAhead: number = 14): Promise<any> {
-    const graph = await this.loadGraph();
-    const today = new Date();
-    const endDate = new Date();
-    endDate.setDate(today.getDate() + daysAhead);
-    
-    // Filter for specific term if provided
-    let relevantCourses: Entity[] = [];
-    if (termName) {
-      // Find the specific term
-      const term = graph.entities.find(e => e.name === termName && e.entityType === 'term');
-      if (!term) {
-        throw new Error(`Term '${termName}' not found`);
-      }
-      
-      // Find courses in this term
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'part_of' && relation.from === relation.to && relation.to === termName) {
-          const course = graph.entities.find(e => e.name === relation.from && e.entityType === 'course');
-          if (course) {
-            relevantCourses.push(course);
-          }
-        }
-      }
-    } else {
-      // Get all courses if no term specified
-      relevantCourses = graph.entities.filter(e => e.entityType === 'course');
+// Format a calendar value as an iCalendar DATE ("20250301") or floating DATE-TIME ("20250301T140000")
+function formatICalDateTime(value: CalendarDateTime): string {
+  const date = value.date.replace(/-/g, '');
+  return value.time ? `${date}T${value.time.replace(':', '')}00` : date;
+}
+
+// Cross-process lock files not refreshed for this long are treated as left behind by a crashed server.
+// Holders refresh their lock several times within this window while a mutation runs.
+const LOCK_STALE_MS = 30000;
+
+// How long to wait for another server to release a lock before failing
+const LOCK_TIMEOUT_MS = 10000;
+
+// Pending mutations per file within this process, run one at a time
+const fileMutationQueues = new Map<string, Promise<unknown>>();
+
+// Files locked by the current async call chain, so nested mutations of the same file don't deadlock
+const heldFileLocks = new AsyncLocalStorage<Set<string>>();
+
+// Read and parse a JSON data file; a missing file yields undefined, a corrupt one is an error
+async function readJsonFile(filePath: string, description: string): Promise<any> {
+  let fileContent: string;
+  try {
+    fileContent = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
     }
-    
-    // Filter for specific course if provided
-    if (courseName) {
-      relevantCourses = relevantCourses.filter(c => c.name === courseName);
-      if (relevantCourses.length === 0) {
-        throw new Error(`Course '${courseName}' not found`);
-      }
+    throw error;
+  }
+  try {
+    return JSON.parse(fileContent);
+  } catch (error) {
+    throw new Error(`The ${description} file ${filePath} is corrupt (${error instanceof Error ? error.message : String(error)}). Repair or restore it before continuing; it has not been modified.`);
+  }
+}
+
+// Write a file atomically: write and flush a temporary file beside it, then rename it over the target
+async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${process.pid}.${Date.now()}.${Math.random().toString(36).substring(2, 8)}.tmp`;
+  try {
+    const handle = await fs.open(tempPath, 'w');
+    try {
+      await handle.writeFile(content, 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
     }
-    
-    // Find all assignments and exams for these courses
-    const deadlines: { entity: Entity; dueDate: Date; course: Entity; daysRemaining: number }[] = [];
-    
-    for (const course of relevantCourses) {
-      // Find assignments for this course
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'assigned_in' && relation.to === course.name) {
-          const assignment = graph.entities.find(e => e.name === relation.from && e.entityType === 'assignment');
-          if (assignment) {
-            // Check due date
-            const dueDateObs = assignment.observations.find(o => o.startsWith('Due:'));
-            if (dueDateObs) {
-              const dueDateStr = dueDateObs.split(':')[1].trim();
-              const dueDate = new Date(dueDateStr);
-              
-              // Check if it's in our date range
-              if (dueDate >= today && dueDate <= endDate) {
-                const daysRemaining = Math.ceil((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-                deadlines.push({
-                  entity: assignment,
-                  dueDate,
-                  course,
-                  daysRemaining
-                });
-              }
-            }
-          }
-        }
-      }
-      
-      // Find exams for this course
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'scheduled_for' && relation.from === course.name) {
-          const exam = graph.entities.find(e => e.name === relation.to && e.entityType === 'exam');
-          if (exam) {
-            // Check exam date
-            const dateObs = exam.observations.find(o => o.startsWith('Date:'));
-            if (dateObs) {
-              const dateStr = dateObs.split(':')[1].trim();
-              const examDate = new Date(dateStr);
-              
-              // Check if it's in our date range
-              if (examDate >= today && examDate <= endDate) {
-                const daysRemaining = Math.ceil((examDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-                deadlines.push({
-                  entity: exam,
-                  dueDate: examDate,
-                  course,
-                  daysRemaining
-                });
-              }
-            }
-          }
-        }
-      }
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
+
+// Read a lock file and return its contents if it belongs to a process that is gone or has not been
+// refreshed for too long. Contents are read before the modification time, so a lock replaced in between
+// looks fresh rather than stale.
+async function readStaleLock(lockPath: string): Promise<string | undefined> {
+  try {
+    const content = await fs.readFile(lockPath, 'utf-8');
+    const stats = await fs.stat(lockPath);
+    if (Date.now() - stats.mtimeMs > LOCK_STALE_MS) {
+      return content;
     }
-    
-    // Sort by due date
-    deadlines.sort((a, b) => a.dueDate.getTime() - b.dueDate.getTime());
-    
-    return {
-      deadlines,
-      startDate: today.toISOString().slice(0, 10),
-      endDate: endDate.toISOString().slice(0, 10),
-      courseFilter: courseName,
-      termFilter: termName,
-      count: deadlines.length
-    };
+    const { pid } = JSON.parse(content);
+    if (pid === process.pid) {
+      // Mutations in this process are queued, so our own lock can only be a leftover
+      return content;
+    }
+    try {
+      process.kill(pid, 0);
+      return undefined;
+    } catch (error) {
+      // ESRCH means the owning process no longer exists
+      return (error as NodeJS.ErrnoException).code === 'ESRCH' ? content : undefined;
+    }
+  } catch {
+    // The lock was just released or is half-written; retry
+    return undefined;
   }
+}
 
-  // Get detailed information about assignment status, including progress, related concepts, and resources
-  async getAssignmentStatus(assignmentName: string): Promise<any> {
-    const graph = await this.loadGraph();
-    
-    // Find the assignment
-    const assignment = graph.entities.find(e => e.name === assignmentName && e.entityType === 'assignment');
-    if (!assignment) {
-      throw new Error(`Assignment '${assignmentName}' not found`);
+// Remove a lock file only if it still has the expected contents. The lock is first renamed aside
+// atomically, so a lock another process has just created is never deleted; if the renamed lock turns out
+// not to be the expected one, it is linked back unless a newer lock already took its place.
+async function removeLockIf(lockPath: string, expected: (content: string) => boolean): Promise<boolean> {
+  const asidePath = `${lockPath}.${process.pid}.${randomBytes(4).toString('hex')}.removed`;
+  try {
+    await fs.rename(lockPath, asidePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return false;
     }
-    
-    // Find the course this assignment belongs to
-    let course: Entity | undefined;
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'assigned_in' && relation.from === assignmentName) {
-        course = graph.entities.find(e => e.name === relation.to && e.entityType === 'course');
-        if (course) {
-          break;
-        }
+    throw error;
+  }
+  const content = await fs.readFile(asidePath, 'utf-8').catch(() => '');
+  const matches = expected(content);
+  if (!matches) {
+    await fs.link(asidePath, lockPath).catch(() => undefined);
+  }
+  await fs.rm(asidePath, { force: true });
+  return matches;
+}
+
+// Acquire the advisory lock file "<file>.lock" shared by every server instance using the file.
+// The lock records a random token, and release only removes the lock if it still carries that token.
+async function acquireFileLock(filePath: string): Promise<() => Promise<void>> {
+  const lockPath = `${filePath}.lock`;
+  const token = randomBytes(16).toString('hex');
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  let delay = 10;
+  
+  while (true) {
+    try {
+      await fs.writeFile(lockPath, JSON.stringify({ pid: process.pid, token, acquiredAt: new Date().toISOString() }), { flag: 'wx' });
+      break;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
       }
     }
     
-    // Get status using the relation-based approach
-    const status = await this.getEntityStatus(assignmentName) || 'not_started';
-    // Get priority using the relation-based approach
-    const priority = await this.getEntityPriority(assignmentName);
-    
-    const dueDate = assignment.observations.find(o => o.startsWith('Due:'))?.split(':')[1].trim();
-    const pointsWorth = assignment.observations.find(o => o.startsWith('Points:'))?.split(':')[1].trim();
-    const instructions = assignment.observations.find(o => o.startsWith('Instructions:'))?.split(':')[1].trim();
-    
-    // Calculate time remaining if due date exists
-    let timeRemaining: number | null = null;
-    let daysRemaining: number | null = null;
-    let isOverdue = false;
-    
-    if (dueDate) {
-      const dueDateTime = new Date(dueDate).getTime();
-      const now = new Date().getTime();
-      timeRemaining = dueDateTime - now;
-      daysRemaining = Math.ceil(timeRemaining / (1000 * 60 * 60 * 24));
-      isOverdue = timeRemaining < 0;
+    const staleContent = await readStaleLock(lockPath);
+    if (staleContent !== undefined) {
+      await removeLockIf(lockPath, content => content === staleContent);
+      continue;
     }
-    
-    // Find concepts related to this assignment
-    const concepts: Entity[] = [];
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'covers' && relation.from === assignmentName) {
-        const concept = graph.entities.find(e => e.name === relation.to && e.entityType === 'concept');
-        if (concept) {
-          concepts.push(concept);
-        }
-      }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for the lock on ${filePath}. If no other server is using this file, delete ${lockPath}.`);
     }
-    
-    // Find resources that might help with this assignment
-    const resources: Entity[] = [];
-    
-    // Direct resources for the assignment
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'helps_with' && relation.to === assignmentName) {
-        const resource = graph.entities.find(e => e.name === relation.from && e.entityType === 'resource');
-        if (resource) {
-          resources.push(resource);
-        }
+    await new Promise(resolve => setTimeout(resolve, delay));
+    delay = Math.min(delay * 2, 200);
+  }
+  
+  // Keep the lock fresh so long mutations (migrations, embedding a large graph) are not taken for crashed ones
+  const refresh = setInterval(() => {
+    const now = new Date();
+    fs.utimes(lockPath, now, now).catch(() => undefined);
+  }, LOCK_STALE_MS / 3);
+  refresh.unref();
+  
+  return async () => {
+    clearInterval(refresh);
+    await removeLockIf(lockPath, content => {
+      try {
+        return JSON.parse(content).token === token;
+      } catch {
+        return false;
       }
+    });
+  };
+}
+
+// Run a load-modify-save operation on a file exclusively: queued behind other mutations of the file
+// in this process and guarded by the cross-process lock. Nested calls run inside the outer mutation.
+async function withFileMutation<T>(filePath: string, operation: () => Promise<T>): Promise<T> {
+  const held = heldFileLocks.getStore();
+  if (held?.has(filePath)) {
+    return operation();
+  }
+  
+  const previous = fileMutationQueues.get(filePath) || Promise.resolve();
+  const run = previous.catch(() => undefined).then(async () => {
+    const release = await acquireFileLock(filePath);
+    try {
+      return await heldFileLocks.run(new Set([...(held || []), filePath]), operation);
+    } finally {
+      await release();
+    }
+  });
+  fileMutationQueues.set(filePath, run);
+  
+  try {
+    return await run;
+  } finally {
+    if (fileMutationQueues.get(filePath) === run) {
+      fileMutationQueues.delete(filePath);
+    }
+  }
+}
+
+// Storage backend for the knowledge graph. Backends load and save the whole graph; mutate runs a
+// load-modify-save operation without interleaving with other writers, and changeToken returns a value
+// that changes whenever the stored graph does.
+interface GraphStorage {
+  readonly location: string;
+  load(): Promise<KnowledgeGraph>;
+  save(graph: KnowledgeGraph): Promise<void>;
+  mutate<T>(operation: () => Promise<T>): Promise<T>;
+  changeToken(): Promise<string>;
+}
+
+// Identify a file's current contents by inode, size, and modification time ("missing" if absent).
+// Atomic writes replace the inode, so rewrites within the same millisecond are still detected.
+async function fileChangeToken(filePath: string): Promise<string> {
+  try {
+    const stats = await fs.stat(filePath);
+    return `${stats.ino}:${stats.size}:${stats.mtimeMs}`;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return 'missing';
     }
+    throw error;
+  }
+}
+
+// Knowledge graph stored as a single JSON file
+class JsonFileStorage implements GraphStorage {
+  constructor(readonly location: string) {}
+
+  async load(): Promise<KnowledgeGraph> {
+    const graph = await readJsonFile(this.location, 'knowledge graph');
     
-    // Resources for concepts related to the assignment
-    for (const concept of concepts) {
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'helps_with' && relation.to === concept.name) {
-          const resource = graph.entities.find(e => e.name === relation.from && e.entityType === 'resource');
-          if (resource && !resources.some(r => r.name === resource.name)) {
-            resources.push(resource);
-          }
-        }
-      }
+    // If the file doesn't exist, return an empty graph
+    if (graph === undefined) {
+      return {
+        entities: [],
+        relations: []
+      };
+    }
+    if (!Array.isArray(graph.entities) || !Array.isArray(graph.relations)) {
+      throw new Error(`The knowledge graph file ${this.location} is corrupt (expected "entities" and "relations" arrays). Repair or restore it before continuing; it has not been modified.`);
+    }
+    return graph;
+  }
+
+  async save(graph: KnowledgeGraph): Promise<void> {
+    await writeFileAtomic(this.location, JSON.stringify(graph, null, 2));
+  }
+
+  mutate<T>(operation: () => Promise<T>): Promise<T> {
+    return withFileMutation(this.location, operation);
+  }
+
+  changeToken(): Promise<string> {
+    return fileChangeToken(this.location);
+  }
+}
+
+// Rows of the SQLite entities and relations tables; observations, attributes and embeddings are stored as JSON
+interface EntityRow {
+  name: string;
+  entity_type: EntityType;
+  observations: string;
+  attributes: string | null;
+  embedding: string | null;
+  position: number;
+}
+
+interface RelationRow {
+  from_name: string;
+  to_name: string;
+  relation_type: string;
+  observations: string | null;
+  position: number;
+}
+
+// Knowledge graph stored in a SQLite database, indexed on entity name and type and on relation endpoints.
+// Rows keep their graph position so entities and relations load in the order they were created.
+class SqliteStorage implements GraphStorage {
+  private database?: BetterSqlite3.Database;
+
+  constructor(readonly location: string) {}
+
+  private async open(): Promise<BetterSqlite3.Database> {
+    if (this.database) {
+      return this.database;
     }
     
-    // Find notes related to this assignment
-    const notes: Entity[] = [];
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'created_for' && relation.to === assignmentName) {
-        const note = graph.entities.find(e => e.name === relation.from && e.entityType === 'note');
-        if (note) {
-          notes.push(note);
-        }
-      }
+    let Database: typeof BetterSqlite3;
+    try {
+      Database = (await import('better-sqlite3')).default;
+    } catch {
+      throw new Error('The sqlite storage backend requires the better-sqlite3 package. Install it with "npm install better-sqlite3".');
     }
     
-    // Add notes related to concepts covered by the assignment
-    for (const concept of concepts) {
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'references' && relation.to === concept.name) {
-          const note = graph.entities.find(e => e.name === relation.from && e.entityType === 'note');
-          if (note && !notes.some(n => n.name === note.name)) {
-            notes.push(note);
-          }
-        }
+    try {
+      const database = new Database(this.location);
+      database.pragma('journal_mode = WAL');
+      database.pragma('busy_timeout = 5000');
+      database.exec(`
+        CREATE TABLE IF NOT EXISTS entities (
+          name TEXT PRIMARY KEY,
+          entity_type TEXT NOT NULL,
+          observations TEXT NOT NULL,
+          attributes TEXT,
+          embedding TEXT,
+          position INTEGER NOT NULL
+        );
+        CREATE INDEX IF NOT EXISTS entities_by_type ON entities (entity_type);
+        CREATE TABLE IF NOT EXISTS relations (
+          from_name TEXT NOT NULL,
+          to_name TEXT NOT NULL,
+          relation_type TEXT NOT NULL,
+          observations TEXT,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (from_name, to_name, relation_type)
+        );
+        CREATE INDEX IF NOT EXISTS relations_by_to ON relations (to_name, relation_type);
+        CREATE INDEX IF NOT EXISTS relations_by_type ON relations (relation_type);
+      `);
+      // Databases created before semantic search have no embedding column
+      if (!(database.prepare('PRAGMA table_info(entities)').all() as { name: string }[]).some(column => column.name === 'embedding')) {
+        database.exec('ALTER TABLE entities ADD COLUMN embedding TEXT');
+      }
+      // Databases created before relation observations were kept have no relation observations column
+      if (!(database.prepare('PRAGMA table_info(relations)').all() as { name: string }[]).some(column => column.name === 'observations')) {
+        database.exec('ALTER TABLE relations ADD COLUMN observations TEXT');
       }
+      this.database = database;
+      return database;
+    } catch (error) {
+      throw new Error(`The knowledge graph database ${this.location} could not be opened (${error instanceof Error ? error.message : String(error)}). Repair or restore it before continuing; it has not been modified.`);
     }
+  }
+
+  async load(): Promise<KnowledgeGraph> {
+    const database = await this.open();
+    const entities = database.prepare('SELECT * FROM entities ORDER BY position').all() as EntityRow[];
+    const relations = database.prepare('SELECT * FROM relations ORDER BY position').all() as RelationRow[];
     
     return {
-      assignment,
-      course,
-      info: {
-        status,
-        dueDate,
-        pointsWorth,
-        instructions,
-        timeRemaining,
-        daysRemaining,
-        isOverdue
-      },
-      concepts,
-      resources,
-      notes
+      entities: entities.map(row => ({
+        name: row.name,
+        entityType: row.entity_type,
+        observations: JSON.parse(row.observations),
+        ...(row.attributes ? { attributes: JSON.parse(row.attributes) } : {}),
+        ...(row.embedding ? { embedding: JSON.parse(row.embedding) } : {})
+      })),
+      relations: relations.map(row => ({
+        from: row.from_name,
+        to: row.to_name,
+        relationType: row.relation_type,
+        ...(row.observations ? { observations: JSON.parse(row.observations) } : {})
+      }))
     };
   }
 
-  // Get exam preparation resources, related concepts, and study plan
-  async getExamPrep(examName: string): Promise<any> {
-    const graph = await this.loadGraph();
-    
-    // Find the exam
-    const exam = graph.entities.find(e => e.name === examName && e.entityType === 'exam');
-    if (!exam) {
-      throw new Error(`Exam '${examName}' not found`);
-    }
+  async save(graph: KnowledgeGraph): Promise<void> {
+    const database = await this.open();
+    const upsertEntity = database.prepare(`
+      INSERT INTO entities (name, entity_type, observations, attributes, embedding, position) VALUES (?, ?, ?, ?, ?, ?)
+      ON CONFLICT (name) DO UPDATE SET entity_type = excluded.entity_type, observations = excluded.observations,
+        attributes = excluded.attributes, embedding = excluded.embedding, position = excluded.position
+    `);
+    const deleteEntity = database.prepare('DELETE FROM entities WHERE name = ?');
+    const upsertRelation = database.prepare(`
+      INSERT INTO relations (from_name, to_name, relation_type, observations, position) VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT (from_name, to_name, relation_type) DO UPDATE SET observations = excluded.observations, position = excluded.position
+    `);
+    const deleteRelation = database.prepare('DELETE FROM relations WHERE from_name = ? AND to_name = ? AND relation_type = ?');
     
-    // Find the course this exam is for
-    let course: Entity | undefined;
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'scheduled_for' && relation.to === examName) {
-        course = graph.entities.find(e => e.name === relation.from && e.entityType === 'course');
-        if (course) {
-          break;
+    // Write only the rows that changed, in one transaction
+    database.transaction(() => {
+      const storedEntities = new Map((database.prepare('SELECT * FROM entities').all() as EntityRow[])
+        .map(row => [row.name, row]));
+      graph.entities.forEach((entity, position) => {
+        const observations = JSON.stringify(entity.observations);
+        const attributes = entity.attributes ? JSON.stringify(entity.attributes) : null;
+        const embedding = entity.embedding ? JSON.stringify(entity.embedding) : null;
+        const stored = storedEntities.get(entity.name);
+        storedEntities.delete(entity.name);
+        if (!stored || stored.entity_type !== entity.entityType || stored.observations !== observations ||
+            stored.attributes !== attributes || stored.embedding !== embedding || stored.position !== position) {
+          upsertEntity.run(entity.name, entity.entityType, observations, attributes, embedding, position);
         }
+      });
+      for (const name of storedEntities.keys()) {
+        deleteEntity.run(name);
       }
-    }
-    
-    // Get exam info from observations
-    const examDate = exam.observations.find(o => o.startsWith('Date:'))?.split(':')[1].trim();
-    const examLocation = exam.observations.find(o => o.startsWith('Location:'))?.split(':')[1].trim();
-    const examFormat = exam.observations.find(o => o.startsWith('Format:'))?.split(':')[1].trim();
-    const examDuration = exam.observations.find(o => o.startsWith('Duration:'))?.split(':')[1].trim();
-    
-    // Calculate time remaining if exam date exists
-    let timeRemaining: number | null = null;
-    let daysRemaining: number | null = null;
-    
-    if (examDate) {
-      const examDateTime = new Date(examDate).getTime();
-      const now = new Date().getTime();
-      timeRemaining = examDateTime - now;
-      daysRemaining = Math.ceil(timeRemaining / (1000 * 60 * 60 * 24));
-    }
-    
-    // Find concepts covered in the exam
-    const concepts: Entity[] = [];
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'covers' && relation.from === examName) {
-        const concept = graph.entities.find(e => e.name === relation.to && e.entityType === 'concept');
-        if (concept) {
-          concepts.push(concept);
+      
+      const relationKey = (from: string, to: string, relationType: string) => JSON.stringify([from, to, relationType]);
+      const storedRelations = new Map((database.prepare('SELECT * FROM relations').all() as RelationRow[])
+        .map(row => [relationKey(row.from_name, row.to_name, row.relation_type), row]));
+      graph.relations.forEach((relation, position) => {
+        const key = relationKey(relation.from, relation.to, relation.relationType);
+        const observations = relation.observations ? JSON.stringify(relation.observations) : null;
+        const stored = storedRelations.get(key);
+        storedRelations.delete(key);
+        if (!stored || stored.observations !== observations || stored.position !== position) {
+          upsertRelation.run(relation.from, relation.to, relation.relationType, observations, position);
         }
+      });
+      for (const stored of storedRelations.values()) {
+        deleteRelation.run(stored.from_name, stored.to_name, stored.relation_type);
       }
-    }
-    
-    // If no concepts directly related to exam, get concepts from the course
-    if (concepts.length === 0 && course) {
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'covers' && relation.from === course.name) {
-          const concept = graph.entities.find(e => e.name === relation.to && e.entityType === 'concept');
-          if (concept) {
-            concepts.push(concept);
-          }
-        }
+    })();
+  }
+
+  mutate<T>(operation: () => Promise<T>): Promise<T> {
+    return withFileMutation(this.location, operation);
+  }
+
+  // Committed changes land in the write-ahead log first, so both files are checked
+  async changeToken(): Promise<string> {
+    return `${await fileChangeToken(this.location)}/${await fileChangeToken(`${this.location}-wal`)}`;
+  }
+}
+
+// Create the storage backend named by STORAGE_BACKEND ("json" or "sqlite")
+function createGraphStorage(backend: string): GraphStorage {
+  switch (backend.toLowerCase()) {
+    case 'json':
+      return new JsonFileStorage(MEMORY_FILE_PATH);
+    case 'sqlite':
+      return new SqliteStorage(SQLITE_FILE_PATH);
+    default:
+      throw new Error(`Invalid storage backend '${backend}'. Valid backends are: ${VALID_STORAGE_BACKENDS.join(', ')}`);
+  }
+}
+
+// Lookup indexes over a loaded graph: entities by name and type, and relations by endpoint and relation type.
+// Lookups return entities and relations in graph order, like scanning the graph would.
+class GraphIndex {
+  private readonly entitiesByName = new Map<string, Entity>();
+  private readonly entitiesByType = new Map<string, Entity[]>();
+  private readonly outgoingRelations = new Map<string, Map<string, Relation[]>>();
+  private readonly incomingRelations = new Map<string, Map<string, Relation[]>>();
+  private searchIndex?: SearchIndex;
+
+  constructor(readonly graph: KnowledgeGraph) {
+    for (const entity of graph.entities) {
+      // The first entity with a name wins, as with graph.entities.find
+      if (!this.entitiesByName.has(entity.name)) {
+        this.entitiesByName.set(entity.name, entity);
       }
+      const ofType = this.entitiesByType.get(entity.entityType) || [];
+      ofType.push(entity);
+      this.entitiesByType.set(entity.entityType, ofType);
     }
-    
-    // Find resources helpful for the exam
-    const resources: Entity[] = [];
-    
-    // Direct resources for the exam
     for (const relation of graph.relations) {
-      if (relation.relationType === 'helps_with' && relation.to === examName) {
-        const resource = graph.entities.find(e => e.name === relation.from && e.entityType === 'resource');
-        if (resource) {
-          resources.push(resource);
-        }
-      }
+      GraphIndex.addAdjacent(this.outgoingRelations, relation.from, relation);
+      GraphIndex.addAdjacent(this.incomingRelations, relation.to, relation);
     }
-    
-    // Resources for concepts covered by the exam
-    for (const concept of concepts) {
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'helps_with' && relation.to === concept.name) {
-          const resource = graph.entities.find(e => e.name === relation.from && e.entityType === 'resource');
-          if (resource && !resources.some(r => r.name === resource.name)) {
-            resources.push(resource);
-          }
-        }
-      }
+  }
+
+  private static addAdjacent(adjacency: Map<string, Map<string, Relation[]>>, name: string, relation: Relation): void {
+    const byType = adjacency.get(name) || new Map<string, Relation[]>();
+    const relations = byType.get(relation.relationType);
+    if (relations) {
+      relations.push(relation);
+    } else {
+      byType.set(relation.relationType, [relation]);
     }
-    
-    // Resources for the course
-    if (course) {
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'helps_with' && relation.to === course.name) {
-          const resource = graph.entities.find(e => e.name === relation.from && e.entityType === 'resource');
-          if (resource && !resources.some(r => r.name === resource.name)) {
-            resources.push(resource);
-          }
-        }
-      }
+    adjacency.set(name, byType);
+  }
+
+  private static adjacent(adjacency: Map<string, Map<string, Relation[]>>, name: string, relationType?: string): Relation[] {
+    const byType = adjacency.get(name);
+    if (!byType) {
+      return [];
     }
-    
-    // Find notes related to the exam
-    const notes: Entity[] = [];
-    
-    // Direct notes for the exam
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'created_for' && relation.to === examName) {
-        const note = graph.entities.find(e => e.name === relation.from && e.entityType === 'note');
-        if (note) {
-          notes.push(note);
-        }
+    if (relationType) {
+      return [...(byType.get(relationType) || [])];
+    }
+    return [...byType.values()].flat();
+  }
+
+  // Find an entity by name, optionally requiring an entity type
+  entity(name: string, entityType?: EntityType): Entity | undefined {
+    const entity = this.entitiesByName.get(name);
+    return entity && (!entityType || entity.entityType === entityType) ? entity : undefined;
+  }
+
+  // All entities of a type
+  ofType(entityType: EntityType): Entity[] {
+    return [...(this.entitiesByType.get(entityType) || [])];
+  }
+
+  // Relations from an entity, optionally of one relation type
+  outgoing(name: string, relationType?: string): Relation[] {
+    return GraphIndex.adjacent(this.outgoingRelations, name, relationType);
+  }
+
+  // Relations to an entity, optionally of one relation type
+  incoming(name: string, relationType?: string): Relation[] {
+    return GraphIndex.adjacent(this.incomingRelations, name, relationType);
+  }
+
+  // Entities that an entity points to through a relation type, optionally of one entity type
+  targets(name: string, relationType: string, entityType?: EntityType): Entity[] {
+    return this.outgoing(name, relationType)
+      .map(relation => this.entity(relation.to, entityType))
+      .filter((entity): entity is Entity => entity !== undefined);
+  }
+
+  // Full-text index for ranked search, built the first time it is needed
+  search(): SearchIndex {
+    if (!this.searchIndex) {
+      this.searchIndex = new SearchIndex(this.graph);
+    }
+    return this.searchIndex;
+  }
+
+  // Entities that point to an entity through a relation type, optionally of one entity type
+  sources(name: string, relationType: string, entityType?: EntityType): Entity[] {
+    return this.incoming(name, relationType)
+      .map(relation => this.entity(relation.from, entityType))
+      .filter((entity): entity is Entity => entity !== undefined);
+  }
+}
+
+// Entity and relation states on either side of a logged change, enough to undo or redo it.
+// An entity with a null "before" was created by the change; one with a null "after" was deleted.
+interface GraphChange {
+  entities: { name: string; before: Entity | null; after: Entity | null }[];
+  addedRelations: Relation[];
+  removedRelations: Relation[];
+  sessions?: SessionChange[];  // Session logs whose entity references the change rewrote (renames and merges)
+}
+
+// A session log's stages on either side of a change
+interface SessionChange {
+  sessionId: string;
+  before: any[];
+  after: any[];
+}
+
+// One line of the append-only change log. Undo and redo entries name the change they reverted or reapplied.
+interface ChangeLogEntry {
+  id: string;
+  timestamp: string;
+  sessionId: string | null;
+  operation: string;
+  summary: string;
+  change?: GraphChange;
+  changeId?: string;
+}
+
+function generateChangeId(): string {
+  return `chg_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+}
+
+// Read every entry of a change log (empty if the file doesn't exist yet)
+async function readChangeLog(filePath: string): Promise<ChangeLogEntry[]> {
+  let fileContent: string;
+  try {
+    fileContent = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  const lines = fileContent.split('\n').filter(line => line.trim() !== '');
+  return lines.map((line, i) => {
+    try {
+      return JSON.parse(line) as ChangeLogEntry;
+    } catch (error) {
+      // A torn final line from an interrupted append is ignored rather than blocking undo
+      if (i === lines.length - 1 && !fileContent.endsWith('\n')) {
+        return undefined;
       }
+      throw new Error(`The change log file ${filePath} is corrupt at line ${i + 1} (${error instanceof Error ? error.message : String(error)}). Repair or restore it before continuing; it has not been modified.`);
     }
-    
-    // Notes for concepts covered in the exam
-    for (const concept of concepts) {
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'references' && relation.to === concept.name) {
-          const note = graph.entities.find(e => e.name === relation.from && e.entityType === 'note');
-          if (note && !notes.some(n => n.name === note.name)) {
-            notes.push(note);
-          }
-        }
+  }).filter((entry): entry is ChangeLogEntry => entry !== undefined);
+}
+
+// Append entries to a change log, one JSON object per line
+async function appendChangeLog(filePath: string, entries: ChangeLogEntry[]): Promise<void> {
+  if (entries.length > 0) {
+    await fs.appendFile(filePath, entries.map(entry => JSON.stringify(entry) + '\n').join(''), 'utf-8');
+  }
+}
+
+// Replay a change log into the changes that can currently be undone and redone, most recent last.
+// A new change after an undo discards the redo stack, as in an editor.
+function changeStacks(entries: ChangeLogEntry[]): { undoable: ChangeLogEntry[]; redoable: ChangeLogEntry[] } {
+  const undoable: ChangeLogEntry[] = [];
+  let redoable: ChangeLogEntry[] = [];
+  for (const entry of entries) {
+    if (entry.operation === 'undo' || entry.operation === 'redo') {
+      const [from, to] = entry.operation === 'undo' ? [undoable, redoable] : [redoable, undoable];
+      const position = from.findIndex(change => change.id === entry.changeId);
+      if (position >= 0) {
+        to.push(...from.splice(position, 1));
       }
+    } else if (entry.change) {
+      undoable.push(entry);
+      redoable = [];
     }
-    
-    // Find previous exams for the course
-    const previousExams: Entity[] = [];
-    if (course) {
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'scheduled_for' && relation.from === course.name && relation.to !== examName) {
-          const prevExam = graph.entities.find(e => e.name === relation.to && e.entityType === 'exam');
-          if (prevExam) {
-            const prevExamDate = prevExam.observations.find(o => o.startsWith('Date:'))?.split(':')[1].trim();
-            if (prevExamDate && new Date(prevExamDate) < new Date()) {
-              previousExams.push(prevExam);
-            }
-          }
-        }
+  }
+  return { undoable, redoable };
+}
+
+// Put the entities and relations of a logged change into their "before" state (undo) or "after" state (redo).
+// Returns a warning for each entity that was edited since, whose later edits are overwritten.
+function applyGraphChange(graph: KnowledgeGraph, change: GraphChange, direction: 'undo' | 'redo'): string[] {
+  const warnings: string[] = [];
+  const sameRelation = (a: Relation, b: Relation) => a.from === b.from && a.to === b.to && a.relationType === b.relationType;
+  
+  for (const { name, before, after } of change.entities) {
+    const [target, expected] = direction === 'undo' ? [before, after] : [after, before];
+    const position = graph.entities.findIndex(e => e.name === name);
+    const current = position >= 0 ? graph.entities[position] : null;
+    if (JSON.stringify(current) !== JSON.stringify(expected)) {
+      warnings.push(`Entity '${name}' was changed after this change was made; its later edits were overwritten`);
+    }
+    if (target && position >= 0) {
+      graph.entities[position] = target;
+    } else if (target) {
+      graph.entities.push(target);
+    } else if (position >= 0) {
+      graph.entities.splice(position, 1);
+      graph.relations = graph.relations.filter(r => r.from !== name && r.to !== name);
+    }
+  }
+  
+  const [toRemove, toAdd] = direction === 'undo'
+    ? [change.addedRelations, change.removedRelations]
+    : [change.removedRelations, change.addedRelations];
+  graph.relations = graph.relations.filter(r => !toRemove.some(relation => sameRelation(r, relation)));
+  for (const relation of toAdd) {
+    const endpointsExist = graph.entities.some(e => e.name === relation.from) && graph.entities.some(e => e.name === relation.to);
+    if (!endpointsExist) {
+      warnings.push(`Relation from '${relation.from}' to '${relation.to}' (${relation.relationType}) was not restored because an endpoint no longer exists`);
+    } else if (!graph.relations.some(r => sameRelation(r, relation))) {
+      graph.relations.push(relation);
+    }
+  }
+  return warnings;
+}
+
+// Put the session logs rewritten by a logged change into their "before" state (undo) or "after" state (redo).
+// Stages added to a session since are kept; a session whose earlier stages were changed since is left as it is.
+function applySessionChange(sessionStates: Map<string, any[]>, change: GraphChange, direction: 'undo' | 'redo'): string[] {
+  const warnings: string[] = [];
+  for (const { sessionId, before, after } of change.sessions || []) {
+    const [target, expected] = direction === 'undo' ? [before, after] : [after, before];
+    const current = sessionStates.get(sessionId) || [];
+    if (JSON.stringify(current.slice(0, expected.length)) !== JSON.stringify(expected)) {
+      warnings.push(`Session '${sessionId}' was changed after this change was made; its references were not ${direction === 'undo' ? 'restored' : 'rewritten'}`);
+      continue;
+    }
+    sessionStates.set(sessionId, [...target, ...current.slice(expected.length)]);
+  }
+  return warnings;
+}
+
+// Replace references to an entity name in session stage data: string values equal to the name, including
+// inside JSON-encoded strings such as the assembled endsession arguments. Returns the new value and the count.
+function replaceNameReferences(value: unknown, from: string, to: string): { value: unknown; count: number } {
+  if (typeof value === 'string') {
+    if (value === from) {
+      return { value: to, count: 1 };
+    }
+    if (/^\s*[\[{]/.test(value) && value.includes(from)) {
+      try {
+        const replaced = replaceNameReferences(JSON.parse(value), from, to);
+        return replaced.count > 0 ? { value: JSON.stringify(replaced.value), count: replaced.count } : { value, count: 0 };
+      } catch {
+        // Not JSON, so treated as free text and left as written
       }
     }
-    
-    // Find study sessions scheduled for this exam
-    // Note: We no longer use studySession entities, this section is removed
-    const studySessions: Entity[] = [];
-    
-    // Get concepts covered in this exam
-    const conceptsCovered: Entity[] = [];
-    
+    return { value, count: 0 };
+  }
+  if (Array.isArray(value)) {
+    const items = value.map(item => replaceNameReferences(item, from, to));
+    return { value: items.map(item => item.value), count: items.reduce((sum, item) => sum + item.count, 0) };
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value).map(([key, item]) => [key, replaceNameReferences(item, from, to)] as const);
     return {
-      exam,
-      course,
-      info: {
-        examDate,
-        examLocation,
-        examFormat,
-        examDuration,
-        timeRemaining,
-        daysRemaining
-      },
-      concepts,
-      resources,
-      notes,
-      previousExams,
-      studySessions,
-      summary: {
-        conceptCount: concepts.length,
-        resourceCount: resources.length,
-        noteCount: notes.length,
-        previousExamCount: previousExams.length,
-        studySessionCount: studySessions.length
-      }
+      value: Object.fromEntries(entries.map(([key, item]) => [key, item.value])),
+      count: entries.reduce((sum, [, item]) => sum + item.count, 0)
     };
   }
+  return { value, count: 0 };
+}
 
-  // Find concepts related to a given concept and how they're connected
-  async findRelatedConcepts(conceptName: string, depth: number = 1): Promise<any> {
-    const graph = await this.loadGraph();
-    
-    // Find the concept
-    const concept = graph.entities.find(e => e.name === conceptName && e.entityType === 'concept');
-    if (!concept) {
-      throw new Error(`Concept '${conceptName}' not found`);
+// Rename an entity in a graph, rewriting relation endpoints in place so the relations keep their order
+function renameInGraph(graph: KnowledgeGraph, oldName: string, newName: string): GraphChange {
+  const position = graph.entities.findIndex(e => e.name === oldName);
+  if (position < 0) {
+    throw new Error(`Entity '${oldName}' not found`);
+  }
+  if (!newName || newName === oldName) {
+    throw new Error(`A new name different from '${oldName}' is required`);
+  }
+  if (graph.entities.some(e => e.name === newName)) {
+    throw new Error(`Entity with name ${newName} already exists`);
+  }
+  
+  const entity = graph.entities[position];
+  const renamed: Entity = { ...entity, name: newName };
+  graph.entities[position] = renamed;
+  
+  const removedRelations: Relation[] = [];
+  const addedRelations: Relation[] = [];
+  graph.relations = graph.relations.map(r => {
+    if (r.from !== oldName && r.to !== oldName) {
+      return r;
     }
-    
-    // Initialize results
-    const relatedConcepts: {
-      concept: Entity;
-      relationPath: string[];
-      depth: number;
-      courses: Entity[];
-      resources: Entity[];
-    }[] = [];
-    
-    // Set to track processed concepts to avoid duplicates
-    const processedConcepts = new Set<string>();
-    processedConcepts.add(conceptName);
-    
-    // Queue of concepts to process with their current depth and path
-    const queue: {
-      name: string;
-      currentDepth: number;
-      path: string[];
-    }[] = [{ name: conceptName, currentDepth: 0, path: [] }];
-    
-    // Process the queue
-    while (queue.length > 0) {
-      const { name, currentDepth, path } = queue.shift()!;
-      
-      // Skip if we've reached max depth (except for the initial concept)
-      if (currentDepth > depth && name !== conceptName) continue;
-      
-      // Find the concept entity
-      const currentConcept = graph.entities.find(e => e.name === name && e.entityType === 'concept');
-      if (!currentConcept) continue;
-      
-      // Skip the initial concept for the results
-      if (name !== conceptName) {
-        // Find courses that cover this concept
-        const courses: Entity[] = [];
-        for (const relation of graph.relations) {
-          if (relation.relationType === 'covers' && relation.to === name) {
-            const course = graph.entities.find(e => e.name === relation.from && e.entityType === 'course');
-            if (course) {
-              courses.push(course);
-            }
-          }
-        }
-        
-        // Find resources that help with this concept
-        const resources: Entity[] = [];
-        for (const relation of graph.relations) {
-          if (relation.relationType === 'helps_with' && relation.to === name) {
-            const resource = graph.entities.find(e => e.name === relation.from && e.entityType === 'resource');
-            if (resource) {
-              resources.push(resource);
-            }
-          }
-        }
-        
-        relatedConcepts.push({
-          concept: currentConcept,
-          relationPath: [...path],
-          depth: currentDepth,
-          courses,
-          resources
-        });
+    const rewritten = { ...r, from: r.from === oldName ? newName : r.from, to: r.to === oldName ? newName : r.to };
+    removedRelations.push(r);
+    addedRelations.push(rewritten);
+    return rewritten;
+  });
+  
+  return {
+    entities: [
+      { name: oldName, before: entity, after: null },
+      { name: newName, before: null, after: renamed }
+    ],
+    addedRelations,
+    removedRelations
+  };
+}
+
+// Merge one entity into another of the same type in a graph. The target keeps its attributes where both have
+// a value; relations beyond a cardinality of one, such as a second status, are dropped with the duplicates.
+function mergeInGraph(graph: KnowledgeGraph, sourceName: string, targetName: string): GraphChange {
+  const source = graph.entities.find(e => e.name === sourceName);
+  const target = graph.entities.find(e => e.name === targetName);
+  if (!source) {
+    throw new Error(`Entity '${sourceName}' not found`);
+  }
+  if (!target) {
+    throw new Error(`Entity '${targetName}' not found`);
+  }
+  if (source === target) {
+    throw new Error('An entity cannot be merged into itself');
+  }
+  if (source.entityType !== target.entityType) {
+    throw new Error(`Cannot merge ${source.entityType} '${sourceName}' into ${target.entityType} '${targetName}'; both entities must have the same type`);
+  }
+  
+  const merged = structuredClone(target);
+  merged.observations.push(...source.observations.filter(o => !merged.observations.includes(o)));
+  const attributes = { ...source.attributes, ...merged.attributes };
+  merged.attributes = Object.keys(attributes).length > 0 ? attributes : undefined;
+  
+  // Point the source's relations at the target, dropping self-relations, duplicates, and extra single targets
+  const entityType = (name: string) => graph.entities.find(e => e.name === name)?.entityType || '';
+  const removedRelations = graph.relations.filter(r => r.from === sourceName || r.to === sourceName);
+  const kept = graph.relations.filter(r => r.from !== sourceName && r.to !== sourceName);
+  const existing = new Set(kept.map(relationIdentity));
+  const singleTargets = new Set(kept.map(r => cardinalityKey(r, entityType(r.to))).filter(key => key !== undefined));
+  const addedRelations: Relation[] = [];
+  for (const relation of removedRelations) {
+    const rewritten = {
+      ...relation,
+      from: relation.from === sourceName ? targetName : relation.from,
+      to: relation.to === sourceName ? targetName : relation.to
+    };
+    const key = cardinalityKey(rewritten, entityType(rewritten.to));
+    if (rewritten.from === rewritten.to || (key && singleTargets.has(key)) || existing.has(relationIdentity(rewritten))) {
+      continue;
+    }
+    existing.add(relationIdentity(rewritten));
+    if (key) {
+      singleTargets.add(key);
+    }
+    addedRelations.push(rewritten);
+  }
+  
+  graph.entities = graph.entities
+    .filter(e => e !== source)
+    .map(e => e === target ? merged : e);
+  graph.relations = [...kept, ...addedRelations];
+  
+  return {
+    entities: [
+      { name: sourceName, before: source, after: null },
+      { name: targetName, before: target, after: merged }
+    ],
+    addedRelations,
+    removedRelations
+  };
+}
+
+// The entities and relations that differ between two graphs, as a change from the first to the second
+function diffGraphs(before: KnowledgeGraph, after: KnowledgeGraph): GraphChange {
+  const relationKey = (r: Relation) => JSON.stringify([r.from, r.to, r.relationType]);
+  const beforeEntities = new Map(before.entities.map(e => [e.name, e]));
+  const afterEntities = new Map(after.entities.map(e => [e.name, e]));
+  const beforeRelations = new Set(before.relations.map(relationKey));
+  const afterRelations = new Set(after.relations.map(relationKey));
+  
+  const entities: GraphChange['entities'] = [];
+  for (const name of new Set([...beforeEntities.keys(), ...afterEntities.keys()])) {
+    const beforeEntity = beforeEntities.get(name) || null;
+    const afterEntity = afterEntities.get(name) || null;
+    if (JSON.stringify(beforeEntity) !== JSON.stringify(afterEntity)) {
+      entities.push({ name, before: beforeEntity, after: afterEntity });
+    }
+  }
+  return {
+    entities,
+    addedRelations: after.relations.filter(r => !beforeRelations.has(relationKey(r))),
+    removedRelations: before.relations.filter(r => !afterRelations.has(relationKey(r)))
+  };
+}
+
+// How buildcontext applies a batch: by default the whole batch fails if any item can't be applied
+interface BatchOptions {
+  partial?: boolean;   // Apply the valid items and report the rest
+  upsert?: boolean;    // Merge into existing entities and skip existing relations instead of failing
+  sessionId?: string;  // Session the change is attributed to in the change history
+}
+
+type BatchItemStatus = 'created' | 'updated' | 'skipped-duplicate' | 'error';
+
+// One item of a batch, as it is (or would be) stored, and what happens to it
+interface PlannedItem<T> {
+  item: T;
+  status: BatchItemStatus;
+  reason?: string;
+}
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// Plan new entities against the graph and each other, preparing their attributes as createEntities stores them.
+// With upsert, an entity that already exists with the same type, or appears earlier in the batch, has the new
+// observations and attributes merged in; the last planned state of each entity is the one to store.
+function planEntityCreation(graph: KnowledgeGraph, entities: Entity[], upsert: boolean = false): PlannedItem<Entity>[] {
+  const existing = new Map(graph.entities.map(e => [e.name, e]));
+  const planned = new Map<string, Entity>();
+  const mergeInto = (current: Entity, entity: Entity): Entity => {
+    const merged = structuredClone(current);
+    applyAttributeUpdate(merged, entity.attributes || {});
+    merged.observations.push(...(entity.observations || []).filter(o => !merged.observations.includes(o)));
+    liftObservationsToAttributes(merged);
+    planned.set(entity.name, merged);
+    return merged;
+  };
+  return entities.map((entity): PlannedItem<Entity> => {
+    try {
+      const earlier = planned.get(entity.name);
+      if (earlier && !upsert) {
+        return { item: entity, status: 'skipped-duplicate', reason: `Entity with name ${entity.name} appears more than once in this batch` };
       }
+      const current = existing.get(entity.name);
+      if (current && !upsert) {
+        return { item: entity, status: 'skipped-duplicate', reason: `Entity with name ${entity.name} already exists` };
+      }
+      validateEntityType(entity.entityType);
       
-      // Find directly related concepts through 'related_to'
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'related_to') {
-          let nextConcept: string | null = null;
-          
-          // Check bidirectional relation
-          if (relation.from === name) {
-            nextConcept = relation.to;
-          } else if (relation.to === name) {
-            nextConcept = relation.from;
-          }
-          
-          if (nextConcept && !processedConcepts.has(nextConcept)) {
-            processedConcepts.add(nextConcept);
-            queue.push({
-              name: nextConcept,
-              currentDepth: currentDepth + 1,
-              path: [...path, `related_to ${nextConcept}`]
-            });
-          }
+      if (earlier) {
+        if (earlier.entityType !== entity.entityType) {
+          throw new Error(`Entity with name ${entity.name} appears earlier in this batch with type ${earlier.entityType}`);
         }
+        return { item: mergeInto(earlier, entity), status: 'updated' };
       }
-      
-      // Find prerequisites
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'prerequisite_for') {
-          let nextConcept: string | null = null;
-          let relationDescription: string = '';
-          
-          if (relation.from === name) {
-            nextConcept = relation.to;
-            relationDescription = `prerequisite_for ${nextConcept}`;
-          } else if (relation.to === name) {
-            nextConcept = relation.from;
-            relationDescription = `${nextConcept} is_prerequisite_for this`;
-          }
-          
-          if (nextConcept && !processedConcepts.has(nextConcept)) {
-            processedConcepts.add(nextConcept);
-            queue.push({
-              name: nextConcept,
-              currentDepth: currentDepth + 1,
-              path: [...path, relationDescription]
-            });
-          }
+      if (current) {
+        if (current.entityType !== entity.entityType) {
+          throw new Error(`Entity with name ${entity.name} already exists with type ${current.entityType}`);
         }
+        return { item: mergeInto(current, entity), status: 'updated' };
       }
+      
+      // Validate typed attributes and lift any prefixed observations into them
+      const prepared: Entity = structuredClone({ ...entity, observations: entity.observations || [] });
+      const attributes = Object.entries(validateAttributes(prepared.entityType, prepared.attributes || {}))
+        .filter((entry): entry is [string, AttributeValue] => entry[1] !== null);
+      prepared.attributes = attributes.length > 0 ? Object.fromEntries(attributes) : undefined;
+      liftObservationsToAttributes(prepared);
+      planned.set(entity.name, prepared);
+      return { item: prepared, status: 'created' };
+    } catch (error) {
+      return { item: entity, status: 'error', reason: errorMessage(error) };
     }
-    
-    // Sort related concepts by depth
-    relatedConcepts.sort((a, b) => a.depth - b.depth);
-    
-    return {
-      concept,
-      relatedConcepts,
-      summary: {
-        totalRelated: relatedConcepts.length,
-        maxDepth: depth
-      }
-    };
+  });
+}
+
+// The entities a planned batch stores, split into new and existing ones. Later items for the same entity build
+// on earlier ones, so the last planned state of each entity wins.
+function plannedEntityStates(graph: KnowledgeGraph, planned: PlannedItem<Entity>[]): { created: Entity[]; updated: Entity[] } {
+  const latest = new Map<string, Entity>();
+  for (const { item } of planned.filter(p => p.status === 'created' || p.status === 'updated')) {
+    latest.set(item.name, item);
   }
+  const stored = new Set(graph.entities.map(e => e.name));
+  return {
+    created: [...latest.values()].filter(entity => !stored.has(entity.name)),
+    updated: [...latest.values()].filter(entity => stored.has(entity.name))
+  };
+}
 
-  // Track lecture notes and find related concepts and resources
-  async trackLectureNotes(courseName: string): Promise<any> {
-    const graph = await this.loadGraph();
-    
-    // Find the course
-    const course = graph.entities.find(e => e.name === courseName && e.entityType === 'course');
-    if (!course) {
-      throw new Error(`Course '${courseName}' not found`);
+// Plan new relations: both endpoints must exist, the relation must fit the relation schema, and it must be new
+function planRelationCreation(graph: KnowledgeGraph, relations: Relation[]): PlannedItem<Relation>[] {
+  const entityTypes = new Map(graph.entities.map(e => [e.name, e.entityType as string]));
+  const existing = new Set(graph.relations.map(relationIdentity));
+  const planned = new Set<string>();
+  
+  // Targets already taken by relations with a cardinality of one
+  const singleTargets = new Map<string, string>();
+  for (const relation of graph.relations) {
+    const key = cardinalityKey(relation, entityTypes.get(relation.to) || '');
+    if (key) {
+      singleTargets.set(key, relation.to);
     }
-    
-    // Find lectures for this course
-    const lectures: Entity[] = [];
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'part_of' && relation.to === courseName) {
-        const lecture = graph.entities.find(e => e.name === relation.from && e.entityType === 'lecture');
-        if (lecture) {
-          lectures.push(lecture);
-        }
-      }
+  }
+  
+  return relations.map((relation): PlannedItem<Relation> => {
+    const describe = `from '${relation.from}' to '${relation.to}' with type '${relation.relationType}'`;
+    const fromType = entityTypes.get(relation.from);
+    const toType = entityTypes.get(relation.to);
+    if (!fromType) {
+      return { item: relation, status: 'error', reason: `Entity '${relation.from}' not found` };
     }
-    
-    // Sort lectures by date if available
-    lectures.sort((a, b) => {
-      const aDateObs = a.observations.find(o => o.startsWith('Date:'));
-      const bDateObs = b.observations.find(o => o.startsWith('Date:'));
-      
-      if (aDateObs && bDateObs) {
-        const aDate = new Date(aDateObs.split(':')[1].trim());
-        const bDate = new Date(bDateObs.split(':')[1].trim());
-        return aDate.getTime() - bDate.getTime();
-      }
-      return 0;
-    });
-    
-    // Create a structure to hold lecture data with notes and concepts
-    const lectureData: Array<{
-      lecture: Entity;
-      info: {
-        date: string | undefined;
-        topic: string | undefined;
-      };
-      notes: Entity[];
-      concepts: Entity[];
-      resources: Entity[];
-      summary: {
-        noteCount: number;
-        conceptCount: number;
-        resourceCount: number;
-      };
-    }> = [];
-    
-    for (const lecture of lectures) {
-      // Get details about the lecture
-      const lectureDate = lecture.observations.find(o => o.startsWith('Date:'))?.split(':')[1].trim();
-      const lectureTopic = lecture.observations.find(o => o.startsWith('Topic:'))?.split(':')[1].trim();
-      
-      // Find notes for this lecture
-      const notes: Entity[] = [];
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'created_for' && relation.to === lecture.name) {
-          const note = graph.entities.find(e => e.name === relation.from && e.entityType === 'note');
-          if (note) {
-            notes.push(note);
-          }
-        }
-      }
-      
-      // Find concepts covered in this lecture
-      const concepts: Entity[] = [];
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'covers' && relation.from === lecture.name) {
-          const concept = graph.entities.find(e => e.name === relation.to && e.entityType === 'concept');
-          if (concept) {
-            concepts.push(concept);
-          }
-        }
-      }
-      
-      // Get resources related to this lecture
-      const resources: Entity[] = [];
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'helps_with' && relation.to === lecture.name) {
-          const resource = graph.entities.find(e => e.name === relation.from && e.entityType === 'resource');
-          if (resource) {
-            resources.push(resource);
-          }
-        }
-      }
-      
-      // Add resources related to concepts in this lecture
-      for (const concept of concepts) {
-        for (const relation of graph.relations) {
-          if (relation.relationType === 'helps_with' && relation.to === concept.name) {
-            const resource = graph.entities.find(e => e.name === relation.from && e.entityType === 'resource');
-            if (resource && !resources.some(r => r.name === resource.name)) {
-              resources.push(resource);
-            }
-          }
-        }
-      }
-      
-      lectureData.push({
-        lecture,
-        info: {
-          date: lectureDate,
-          topic: lectureTopic
-        },
-        notes,
-        concepts,
-        resources,
-        summary: {
-          noteCount: notes.length,
-          conceptCount: concepts.length,
-          resourceCount: resources.length
-        }
-      });
+    if (!toType) {
+      return { item: relation, status: 'error', reason: `Entity '${relation.to}' not found` };
     }
-    
-    return {
-      course,
-      lectures: lectureData,
-      summary: {
-        lectureCount: lectures.length,
-        totalNotes: lectureData.reduce((sum, ld) => sum + ld.notes.length, 0),
-        totalConcepts: lectureData.reduce((sum, ld) => sum + ld.concepts.length, 0)
-      }
-    };
-  }
-
-  // Get term overview including courses, progress, and important dates
-  async getTermOverview(termName: string): Promise<any> {
-    const graph = await this.loadGraph();
-    
-    // Find the term
-    const term = graph.entities.find(e => e.name === termName && e.entityType === 'term');
-    if (!term) {
-      throw new Error(`Term '${termName}' not found`);
+    const violation = relationSchemaViolation(relation, fromType, toType);
+    if (violation) {
+      return { item: relation, status: 'error', reason: violation };
     }
-    
-    // Get term info
-    const startDate = term.observations.find(o => o.startsWith('StartDate:'))?.split(':')[1].trim();
-    const endDate = term.observations.find(o => o.startsWith('EndDate:'))?.split(':')[1].trim();
-    const status = term.observations.find(o => o.startsWith('Status:'))?.split(':')[1].trim() || 'in_progress';
-    
-    // Find courses for this term
-    const courses: Entity[] = [];
-    for (const relation of graph.relations) {
-      if (relation.relationType === 'part_of' && relation.to === termName) {
-        const course = graph.entities.find(e => e.name === relation.from && e.entityType === 'course');
-        if (course) {
-          courses.push(course);
-        }
-      }
+    if (planned.has(relationIdentity(relation))) {
+      return { item: relation, status: 'skipped-duplicate', reason: `Relation ${describe} appears more than once in this batch` };
     }
-    
-    // Get detailed information for each course
-    const courseData: Array<{
-      course: Entity;
-      professor: Entity | undefined;
-      info: {
-        code: string | undefined;
-        schedule: string | undefined;
-        status: string;
-      };
-      progress: {
-        completedAssignments: number;
-        totalAssignments: number;
-        completionRate: number;
-      };
-      upcomingExam: Entity | undefined;
-      summary: {
-        assignmentCount: number;
-        examCount: number;
-      };
-    }> = [];
-    
-    for (const course of courses) {
-      // Get course info
-      const courseCode = course.observations.find(o => o.startsWith('Code:'))?.split(':')[1].trim();
-      const courseSchedule = course.observations.find(o => o.startsWith('Schedule:'))?.split(':')[1].trim();
-      const courseStatus = course.observations.find(o => o.startsWith('Status:'))?.split(':')[1].trim() || 'in_progress';
-      
-      // Find professor
-      let professor: Entity | undefined;
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'taught_by' && relation.from === course.name) {
-          professor = graph.entities.find(e => e.name === relation.to && e.entityType === 'professor');
-          if (professor) {
-            break;
-          }
-        }
-      }
-      
-      // Find assignments for this course
-      const assignments: Entity[] = [];
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'assigned_in' && relation.to === course.name) {
-          const assignment = graph.entities.find(e => e.name === relation.from && e.entityType === 'assignment');
-          if (assignment) {
-            assignments.push(assignment);
-          }
-        }
-      }
-      
-      // Count completed and total assignments
-      const completedAssignments = assignments.filter(a => 
-        a.observations.find(o => o.startsWith('Status:'))?.split(':')[1].trim() === 'completed'
-      ).length;
-      
-      // Find exams for this course
-      const exams: Entity[] = [];
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'scheduled_for' && relation.from === course.name) {
-          const exam = graph.entities.find(e => e.name === relation.to && e.entityType === 'exam');
-          if (exam) {
-            exams.push(exam);
-          }
-        }
-      }
-      
-      // Sort exams by date
-      exams.sort((a, b) => {
-        const aDateObs = a.observations.find(o => o.startsWith('Date:'));
-        const bDateObs = b.observations.find(o => o.startsWith('Date:'));
-        
-        if (aDateObs && bDateObs) {
-          const aDate = new Date(aDateObs.split(':')[1].trim());
-          const bDate = new Date(bDateObs.split(':')[1].trim());
-          return aDate.getTime() - bDate.getTime();
-        }
-        return 0;
-      });
-      
-      // Get the next upcoming exam
-      const upcomingExam = exams.find(e => {
-        const dateObs = e.observations.find(o => o.startsWith('Date:'));
-        if (dateObs) {
-          const examDate = new Date(dateObs.split(':')[1].trim());
-          return examDate > new Date();
-        }
-        return false;
-      });
-      
-      courseData.push({
-        course,
-        professor,
-        info: {
-          code: courseCode,
-          schedule: courseSchedule,
-          status: courseStatus
-        },
-        progress: {
-          completedAssignments,
-          totalAssignments: assignments.length,
-          completionRate: assignments.length > 0 ? 
-            Math.round((completedAssignments / assignments.length) * 100) : 0
-        },
-        upcomingExam,
-        summary: {
-          assignmentCount: assignments.length,
-          examCount: exams.length
-        }
-      });
+    if (existing.has(relationIdentity(relation))) {
+      return { item: relation, status: 'skipped-duplicate', reason: `Relation ${describe} already exists` };
     }
-    
-    // Find all deadlines (assignments and exams) in this term
-    const allDeadlines: {
-      entity: Entity;
-      type: 'assignment' | 'exam';
-      course: Entity;
-      date: Date;
-      daysRemaining: number;
-    }[] = [];
-    
-    // Current date for comparisons
-    const today = new Date();
-    
-    // Process assignments
-    for (const course of courses) {
-      // Find assignments for this course
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'assigned_in' && relation.to === course.name) {
-          const assignment = graph.entities.find(e => e.name === relation.from && e.entityType === 'assignment');
-          if (assignment) {
-            // Check due date
-            const dueDateObs = assignment.observations.find(o => o.startsWith('Due:'));
-            if (dueDateObs) {
-              const dueDateStr = dueDateObs.split(':')[1].trim();
-              const dueDate = new Date(dueDateStr);
-              
-              // Only include future deadlines
-              if (dueDate >= today) {
-                const daysRemaining = Math.ceil((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-                allDeadlines.push({
-                  entity: assignment,
-                  type: 'assignment',
-                  course,
-                  date: dueDate,
-                  daysRemaining
-                });
-              }
-            }
-          }
-        }
-      }
-      
-      // Find exams for this course
-      for (const relation of graph.relations) {
-        if (relation.relationType === 'scheduled_for' && relation.from === course.name) {
-          const exam = graph.entities.find(e => e.name === relation.to && e.entityType === 'exam');
-          if (exam) {
-            // Check exam date
-            const dateObs = exam.observations.find(o => o.startsWith('Date:'));
-            if (dateObs) {
-              const dateStr = dateObs.split(':')[1].trim();
-              const examDate = new Date(dateStr);
-              
-              // Only include future dates
-              if (examDate >= today) {
-                const daysRemaining = Math.ceil((examDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24));
-                allDeadlines.push({
-                  entity: exam,
-                  type: 'exam',
-                  course,
-                  date: examDate,
-                  daysRemaining
-                });
-              }
-            }
-          }
-        }
-      }
+    const key = cardinalityKey(relation, toType);
+    const taken = key ? singleTargets.get(key) : undefined;
+    if (key && taken !== undefined) {
+      return { item: relation, status: 'error', reason: `'${relation.from}' already has a ${relation.relationType} relation to ${toType} '${taken}'; a ${fromType} can have only one` };
     }
-    
-    // Sort all deadlines by date
-    allDeadlines.sort((a, b) => a.date.getTime() - b.date.getTime());
-    
-    return {
-      term,
-      info: {
-        startDate,
-        endDate,
-        status
-      },
-      courses: courseData,
-      upcomingDeadlines: allDeadlines.slice(0, 10), // Return the next 10 deadlines
-      summary: {
-        courseCount: courses.length,
-        deadlineCount: allDeadlines.length
-      }
-    };
-  }
+    if (key) {
+      singleTargets.set(key, relation.to);
+    }
+    planned.add(relationIdentity(relation));
+    return { item: relation, status: 'created' };
+  });
 }
 
-// Session management functions
-async function loadSessionStates(): Promise<Map<string, any[]>> {
-  try {
-    const fileContent = await fs.readFile(SESSIONS_FILE_PATH, 'utf-8');
-    const sessions = JSON.parse(fileContent);
-    // Convert from object to Map
-    const sessionsMap = new Map<string, any[]>();
-    for (const [key, value] of Object.entries(sessions)) {
-      sessionsMap.set(key, value as any[]);
-    }
-    return sessionsMap;
-  } catch (error) {
-    if (error instanceof Error && 'code' in error && (error as any).code === "ENOENT") {
-      return new Map<string, any[]>();
+// Plan observations added to existing entities; the planned entity is the result after lifting prefixed observations
+function planObservationAddition(graph: KnowledgeGraph, items: { entityName: string; contents: string[] }[]): PlannedItem<{ entityName: string; contents: string[]; entity?: Entity }>[] {
+  const updated = new Map<string, Entity>();
+  return items.map(item => {
+    if (!item || typeof item.entityName !== 'string' || !Array.isArray(item.contents) || !item.contents.every(o => typeof o === 'string')) {
+      return { item, status: 'error', reason: 'Each item needs an entityName and a contents array of strings' };
     }
-    throw error;
-  }
+    const current = updated.get(item.entityName) || graph.entities.find(e => e.name === item.entityName);
+    if (!current) {
+      return { item, status: 'error', reason: `Entity '${item.entityName}' not found` };
+    }
+    const entity = structuredClone(current);
+    entity.observations.push(...item.contents);
+    liftObservationsToAttributes(entity);
+    updated.set(entity.name, entity);
+    return { item: { ...item, entity }, status: 'updated' };
+  });
 }
 
-async function saveSessionStates(sessionsMap: Map<string, any[]>): Promise<void> {
-  // Convert from Map to object
-  const sessions: Record<string, any[]> = {};
-  for (const [key, value] of sessionsMap.entries()) {
-    sessions[key] = value;
+// In an all-or-nothing batch, fail with the first item that can't be applied
+function assertBatchApplies<T>(planned: PlannedItem<T>[], options: BatchOptions): void {
+  if (options.partial) {
+    return;
+  }
+  const failed = planned.find(p => p.status === 'error' || (p.status === 'skipped-duplicate' && !options.upsert));
+  if (failed) {
+    throw new Error(failed.reason);
   }
-  await fs.writeFile(SESSIONS_FILE_PATH, JSON.stringify(sessions, null, 2), 'utf-8');
 }
 
-// Generate a unique session ID
-function generateSessionId(): string {
-  return `stud_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+// Per-item results of a batch in request order, with counts by status
+function summarizeBatch<T>(planned: PlannedItem<T>[], describe: (item: T) => Record<string, unknown>) {
+  const count = (status: BatchItemStatus) => planned.filter(p => p.status === status).length;
+  return {
+    results: planned.map((p, index) => ({
+      index,
+      ...describe(p.item),
+      status: p.status,
+      ...(p.reason ? { message: p.reason } : {})
+    })),
+    summary: {
+      created: count('created'),
+      updated: count('updated'),
+      skipped: count('skipped-duplicate'),
+      errors: count('error')
+    }
+  };
 }
 
-// Setup the MCP server
-async function main() {
-  const knowledgeGraphManager = new KnowledgeGraphManager();
-  
-  // Initialize status and priority entities
-  await knowledgeGraphManager.initializeStatusAndPriority();
-  
-  // Helper function to get current term
-  async function getCurrentTerm(): Promise<string | null> {
-    // Find the most recent term with status "active"
-    const termQuery = await knowledgeGraphManager.searchNodes("entityType:term status:active");
-    if (termQuery.entities.length > 0) {
-      return termQuery.entities[0].name;
+// Merge validated attributes into an entity (null removes one) and drop the legacy observations they supersede
+function applyAttributeUpdate(entity: Entity, attributes: Record<string, unknown>): void {
+  const merged: Record<string, AttributeValue> = { ...entity.attributes };
+  for (const [key, value] of Object.entries(validateAttributes(entity.entityType, attributes))) {
+    if (value === null) {
+      delete merged[key];
+    } else {
+      merged[key] = value;
     }
-    return null;
   }
+  entity.attributes = Object.keys(merged).length > 0 ? merged : undefined;
   
-  // Create the MCP server using the new API
-  const server = new McpServer({
-    name: "Context Manager",
-    version: "1.0.0"
-  });
-
-  // Define a resource that exposes the entire graph
-  server.resource(
-    "graph",
-    "graph://student",
-    async (uri) => ({
-      contents: [{
-        uri: uri.href,
-        text: JSON.stringify(await knowledgeGraphManager.readGraph(), null, 2)
-      }]
-    })
+  const schema = ENTITY_ATTRIBUTE_SCHEMA[entity.entityType] || {};
+  entity.observations = entity.observations.filter(o => 
+    !Object.keys(attributes).some(key => o.startsWith(schema[key].prefix))
   );
+}
 
-  /**
-   * Load context for a specific entity
-   */
-  server.tool(
-    "loadcontext",
-    toolDescriptions["loadcontext"],
-    {
-      entityName: z.string(),
-      entityType: z.enum(validEntityTypes).optional().describe("Type of entity to load, defaults to 'course'"),
-      sessionId: z.string().optional().describe("Session ID from startsession to track context loading")
-    },
-    async ({ entityName, entityType = "course", sessionId }) => {
-      try {
-        // Validate session if ID is provided
-        if (sessionId) {
-          const sessionStates = await loadSessionStates();
-          if (!sessionStates.has(sessionId)) {
-            console.warn(`Warning: Session ${sessionId} not found, but proceeding with context load`);
-            // Initialize it anyway for more robustness
-            sessionStates.set(sessionId, []);
-            await saveSessionStates(sessionStates);
-          }
-          
-          // Track that this entity was loaded in this session
-          const sessionState = sessionStates.get(sessionId) || [];
-          const loadEvent = {
-            type: 'context_loaded',
-            timestamp: new Date().toISOString(),
-            entityName,
-            entityType
-          };
-          sessionState.push(loadEvent);
-          sessionStates.set(sessionId, sessionState);
-          await saveSessionStates(sessionStates);
-        }
-        
-        // Get the entity
-        const entityGraph = await knowledgeGraphManager.searchNodes(entityName);
-        if (entityGraph.entities.length === 0) {
-          throw new Error(`Entity ${entityName} not found`);
-        }
-        
-        // Find the exact entity by name (case-sensitive match)
-        const entity = entityGraph.entities.find(e => e.name === entityName);
-        if (!entity) {
-          throw new Error(`Entity ${entityName} not found`);
-        }
-        
-        // Get status and priority
-        const status = await knowledgeGraphManager.getEntityStatus(entityName) || "not_started";
-        const priority = await knowledgeGraphManager.getEntityPriority(entityName);
-        
-        // Format observations for display
-        const observationsList = entity.observations.length > 0 
-          ? entity.observations.map(obs => `- ${obs}`).join("\n")
-          : "No observations";
-        
-        // Different context loading based on entity type
-        let contextMessage = "";
-        
-        if (entityType === "course") {
-          // Get course overview
-          const courseOverview = await knowledgeGraphManager.getCourseOverview(entityName);
-          
-          // Format course context message
-          const code = entity.observations.find(o => o.startsWith("Code:"))?.substring(5) || "No code";
-          const schedule = entity.observations.find(o => o.startsWith("Schedule:"))?.substring(9) || "No schedule";
-          const location = entity.observations.find(o => o.startsWith("Location:"))?.substring(9) || "No location";
-          
-          // Format lectures
-          const lecturesText = courseOverview.lectures?.map((lecture: Entity) => {
-            return `- **${lecture.name}**: ${lecture.observations.join(", ")}`;
-          }).join("\n") || "No lectures found";
-          
-          // Format assignments - use status relation
-          const assignmentsText = courseOverview.assignments?.map(async (assignment: Entity) => {
-            const assignmentStatus = await knowledgeGraphManager.getEntityStatus(assignment.name) || "not_started";
-            const assignmentPriority = await knowledgeGraphManager.getEntityPriority(assignment.name);
-            const priorityText = assignmentPriority ? `, Priority: ${assignmentPriority}` : "";
-            return `- **${assignment.name}** (Status: ${assignmentStatus}${priorityText}): ${assignment.observations.join(", ")}`;
-          });
-          
-          const resolvedAssignmentsText = assignmentsText ? 
-            await Promise.all(assignmentsText).then(texts => texts.join("\n")) : 
-            "No assignments found";
-          
-          // Format exams - use status relation
-          const examsText = courseOverview.exams?.map(async (exam: Entity) => {
-            const examStatus = await knowledgeGraphManager.getEntityStatus(exam.name) || "not_started";
-            return `- **${exam.name}** (Status: ${examStatus}): ${exam.observations.join(", ")}`;
-          });
-          
-          const resolvedExamsText = examsText ? 
-            await Promise.all(examsText).then(texts => texts.join("\n")) : 
-            "No exams found";
-          
-          // Format concepts
-          const conceptsText = courseOverview.concepts?.map((concept: Entity) => {
-            return `- **${concept.name}**: ${concept.observations.join(", ")}`;
-          }).join("\n") || "No concepts found";
-          
-          // Format resources
-          const resourcesText = courseOverview.resources?.map((resource: Entity) => {
-            return `- **${resource.name}**: ${resource.observations.join(", ")}`;
-          }).join("\n") || "No resources found";
-          
-          // Add professor info if available
-          const professorText = courseOverview.professor ? 
-            `**Professor**: ${courseOverview.professor.name}
-${courseOverview.professor.observations.join("\n")}` : "No professor information";
-          
-          // Add term info if available
-          const termText = courseOverview.term ? 
-            `**Term**: ${courseOverview.term.name}` : "No term information";
-          
-          contextMessage = `# Course Context: ${entityName}
+// Entities that deleteEntities would remove, the relations that would cascade with them, and names that don't exist
+function planEntityDeletion(graph: KnowledgeGraph, entityNames: string[]) {
+  const entities = graph.entities.filter(e => entityNames.includes(e.name));
+  return {
+    entities,
+    relations: graph.relations.filter(r => entityNames.includes(r.from) || entityNames.includes(r.to)),
+    notFound: entityNames.filter(name => !entities.some(e => e.name === name))
+  };
+}
 
-## Course Overview
-- **Code**: ${code}
-- **Status**: ${status}
-- **Priority**: ${priority || "N/A"}
-- **Schedule**: ${schedule}
-- **Location**: ${location}
+// Relations that deleteRelations would remove, and requested relations that don't exist
+function planRelationDeletion(graph: KnowledgeGraph, relations: Relation[]) {
+  const matches = (a: Relation, b: Relation) => a.from === b.from && a.to === b.to && a.relationType === b.relationType;
+  return {
+    relations: graph.relations.filter(r => relations.some(toDelete => matches(r, toDelete))),
+    notFound: relations.filter(toDelete => !graph.relations.some(r => matches(r, toDelete)))
+  };
+}
 
-## Observations
-${observationsList}
+// Observations that deleteObservations would remove from each entity, and those that don't exist
+function planObservationDeletion(graph: KnowledgeGraph, deletions: { entityName: string; observations: string[] }[]) {
+  const found: { entityName: string; observations: string[] }[] = [];
+  const notFound: { entityName: string; observations: string[]; reason: string }[] = [];
+  for (const deletion of deletions) {
+    const entity = graph.entities.find(e => e.name === deletion.entityName);
+    if (!entity) {
+      notFound.push({ ...deletion, reason: `Entity '${deletion.entityName}' not found` });
+      continue;
+    }
+    const present = deletion.observations.filter(o => entity.observations.includes(o));
+    const missing = deletion.observations.filter(o => !entity.observations.includes(o));
+    if (present.length > 0) {
+      found.push({ entityName: entity.name, observations: present });
+    }
+    if (missing.length > 0) {
+      notFound.push({ entityName: entity.name, observations: missing, reason: 'Observation not found' });
+    }
+  }
+  return { found, notFound };
+}
 
-- ${termText}
-- ${professorText}
+// A saved copy of the knowledge graph and session states
+interface Snapshot {
+  id: string;
+  name: string;
+  createdAt: string;
+  automatic: boolean;
+  graph: KnowledgeGraph;
+  sessions: Record<string, any[]>;
+}
 
-## Lectures
-${lecturesText}
+function generateSnapshotId(): string {
+  return `snap_${Date.now()}_${Math.random().toString(36).substring(2, 10)}`;
+}
 
-## Assignments
-${resolvedAssignmentsText}
+// What a snapshot holds, without its contents. Stored beside each snapshot as <id>.meta.json, so snapshots can be
+// listed and found without parsing whole graphs.
+interface SnapshotInfo {
+  id: string;
+  name: string;
+  createdAt: string;
+  automatic: boolean;
+  entityCount: number;
+  relationCount: number;
+  sessionCount: number;
+  graphHash: string;  // Tells whether the graph has changed since the snapshot was taken
+}
 
-## Exams
-${resolvedExamsText}
+// Hash identifying a graph's contents
+function hashGraph(graph: KnowledgeGraph): string {
+  return createHash('sha1').update(JSON.stringify(graph)).digest('hex');
+}
 
-## Key Concepts
-${conceptsText}
+function snapshotInfo(snapshot: Snapshot): SnapshotInfo {
+  return {
+    id: snapshot.id,
+    name: snapshot.name,
+    createdAt: snapshot.createdAt,
+    automatic: snapshot.automatic,
+    entityCount: snapshot.graph.entities.length,
+    relationCount: snapshot.graph.relations.length,
+    sessionCount: Object.keys(snapshot.sessions).length,
+    graphHash: hashGraph(snapshot.graph)
+  };
+}
 
-## Resources
-${resourcesText}`;
-        } 
-        else if (entityType === "assignment") {
-          // Get assignment status
-          const assignmentStatus = await knowledgeGraphManager.getAssignmentStatus(entityName);
-          
-          // Get course name
-          const courseName = assignmentStatus.course?.name || "Unknown course";
-          
-          // Format assignment context using relations instead of observations
-          const dueDate = entity.observations.find(o => o.startsWith("Due:"))?.substring(4) || "No due date";
-          const points = entity.observations.find(o => o.startsWith("Points:"))?.substring(7) || "Not specified";
-          const instructions = entity.observations.find(o => o.startsWith("Instructions:"))?.substring(13) || "No instructions provided";
-          
-          // Calculate time remaining
-          let timeRemainingText = "No due date specified";
-          if (assignmentStatus.timeRemaining !== null) {
-            if (assignmentStatus.isOverdue) {
-              timeRemainingText = `OVERDUE by ${Math.abs(assignmentStatus.daysRemaining)} days`;
-            } else {
-              timeRemainingText = `${assignmentStatus.daysRemaining} days remaining`;
-            }
-          }
-          
-          // Format related concepts
-          const conceptsText = assignmentStatus.concepts?.map((concept: Entity) => {
-            return `- **${concept.name}**: ${concept.observations.join(", ")}`;
-          }).join("\n") || "No related concepts found";
-          
-          // Format related resources
-          const resourcesText = assignmentStatus.resources?.map((resource: Entity) => {
-            return `- **${resource.name}**: ${resource.observations.join(", ")}`;
-          }).join("\n") || "No resources found";
-          
-          // Format notes
-          const notesText = assignmentStatus.notes?.map((note: Entity) => {
-            return `- **${note.name}**: ${note.observations.join(", ")}`;
-          }).join("\n") || "No notes found";
-          
-          contextMessage = `# Assignment Context: ${entityName}
+// Read the info of every snapshot in a directory, oldest first (empty if the directory doesn't exist yet).
+// A snapshot saved without an info file is read in full once and given one.
+async function readSnapshotInfos(directory: string): Promise<SnapshotInfo[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(directory);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+  const infos: SnapshotInfo[] = [];
+  for (const file of files.filter(f => /^snap_[^.]+\.json$/.test(f))) {
+    const id = file.slice(0, -'.json'.length);
+    const infoPath = path.join(directory, `${id}.meta.json`);
+    let info: SnapshotInfo | undefined = await readJsonFile(infoPath, 'snapshot info');
+    if (!info) {
+      const snapshot: Snapshot | undefined = await readJsonFile(path.join(directory, file), 'snapshot');
+      if (!snapshot) {
+        continue;
+      }
+      info = snapshotInfo(snapshot);
+      await writeFileAtomic(infoPath, JSON.stringify(info));
+    }
+    infos.push(info);
+  }
+  return infos.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
 
-## Assignment Overview
-- **Course**: ${courseName}
-- **Status**: ${status}
-- **Priority**: ${priority || "N/A"}
-- **Due Date**: ${dueDate}
-- **Points**: ${points}
-- **Time Remaining**: ${timeRemainingText}
+// Read a whole snapshot by ID
+async function readSnapshot(directory: string, id: string): Promise<Snapshot> {
+  const snapshot = await readJsonFile(path.join(directory, `${id}.json`), 'snapshot');
+  if (!snapshot) {
+    throw new Error(`Snapshot '${id}' not found`);
+  }
+  return snapshot;
+}
 
-## Observations
-${observationsList}
+// Find a snapshot by ID, or the most recent one with the given name
+function findSnapshot(snapshots: SnapshotInfo[], reference: string): SnapshotInfo {
+  const snapshot = snapshots.find(s => s.id === reference) || [...snapshots].reverse().find(s => s.name === reference);
+  if (!snapshot) {
+    throw new Error(`Snapshot '${reference}' not found`);
+  }
+  return snapshot;
+}
 
-## Instructions
-${instructions}
+// Entity and relation counts of a snapshot, without its contents
+function describeSnapshot({ graphHash, ...description }: SnapshotInfo) {
+  return description;
+}
 
-## Related Concepts
-${conceptsText}
+// Similarity (0 to 1) at which two entities of the same type are reported as likely duplicates
+const DUPLICATE_SIMILARITY = 0.8;
 
-## Helpful Resources
-${resourcesText}
+// Words or name prefixes shared by more entities than this are too common to suggest a duplicate
+const DUPLICATE_BLOCK_LIMIT = 100;
 
-## Your Notes
-${notesText}`;
-        }
-        else if (entityType === "exam") {
-          // Get exam prep information
-          const examPrep = await knowledgeGraphManager.getExamPrep(entityName);
-          
-          // Format exam context
-          const examDate = entity.observations.find(o => o.startsWith("Date:"))?.substring(5) || "No date scheduled";
-          const examLocation = entity.observations.find(o => o.startsWith("Location:"))?.substring(9) || "No location specified";
-          const examFormat = entity.observations.find(o => o.startsWith("Format:"))?.substring(7) || "No format specified";
-          const examDuration = entity.observations.find(o => o.startsWith("Duration:"))?.substring(9) || "No duration specified";
-          
-          // Calculate time remaining
-          let timeRemainingText = "No exam date specified";
-          if (examPrep.daysRemaining !== null) {
-            timeRemainingText = `${examPrep.daysRemaining} days until exam`;
-          }
-          
-          // Get course name
-          const courseName = examPrep.course?.name || "Unknown course";
-          
-          // Format concepts covered
-          const conceptsText = examPrep.concepts?.map((concept: Entity) => {
-            return `- **${concept.name}**: ${concept.observations.join(", ")}`;
-          }).join("\n") || "No concepts listed";
-          
-          // Format study resources
-          const resourcesText = examPrep.resources?.map((resource: Entity) => {
-            return `- **${resource.name}**: ${resource.observations.join(", ")}`;
-          }).join("\n") || "No resources found";
-          
-          // Format lectures
-          const lecturesText = examPrep.lectures?.map((lecture: Entity) => {
-            return `- **${lecture.name}**: ${lecture.observations.join(", ")}`;
-          }).join("\n") || "No lectures found";
-          
-          contextMessage = `# Exam Context: ${entityName}
+// Names that endsession generated for learned concepts, which say nothing about the concept
+const GENERATED_CONCEPT_NAME = /^Concept_\d+_\d+$/;
 
-## Exam Details
-- **Course**: ${courseName}
-- **Date**: ${examDate}
-- **Time Remaining**: ${timeRemainingText}
-- **Location**: ${examLocation}
-- **Format**: ${examFormat}
-- **Duration**: ${examDuration}
+// Text that identifies an entity: its name, or its first observation when the name was generated
+function entityLabel(entity: Entity): string {
+  return normalizeText(GENERATED_CONCEPT_NAME.test(entity.name) && entity.observations.length > 0 ? entity.observations[0] : entity.name);
+}
 
-## Concepts to Study
-${conceptsText}
+// Free-text observations, leaving out prefixed values such as "Reviewed: 2025-03-01 good" that many entities share
+function descriptiveText(entity: Entity): string {
+  return normalizeText(entity.observations.filter(o => !/^[A-Z][A-Za-z]*: /.test(o)).join(' '));
+}
 
-## Key Lectures
-${lecturesText}
+// Edit distance between two strings, counting a swap of adjacent characters as one edit (optimal string alignment)
+function editDistance(a: string, b: string): number {
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+    }
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+}
 
-## Study Resources
-${resourcesText}`;
+// Share of distinct words two normalized texts have in common (Jaccard)
+function tokenOverlap(a: string, b: string): number {
+  const tokensA = new Set(a.split(' ').filter(Boolean));
+  const tokensB = new Set(b.split(' ').filter(Boolean));
+  if (tokensA.size === 0 || tokensB.size === 0) {
+    return 0;
+  }
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+// How alike two entities are, from 0 to 1, and which comparison said so. Labels carrying different numbers,
+// such as "Homework 1" and "Homework 2", are never alike.
+function entitySimilarity(a: Entity, b: Entity): { score: number; reason: string } {
+  const labelA = entityLabel(a);
+  const labelB = entityLabel(b);
+  if ((labelA.match(/\d+/g) || []).join(' ') !== (labelB.match(/\d+/g) || []).join(' ')) {
+    return { score: 0, reason: 'different numbers' };
+  }
+  if (labelA === labelB) {
+    return { score: 1, reason: 'same normalized name' };
+  }
+  
+  const candidates = [
+    { score: tokenOverlap(labelA, labelB), reason: 'name word overlap' },
+    { score: tokenOverlap(descriptiveText(a), descriptiveText(b)), reason: 'observation word overlap' }
+  ];
+  // Edit distance catches typos; long labels are left to word overlap
+  if (labelA.length <= 100 && labelB.length <= 100) {
+    candidates.push({ score: 1 - editDistance(labelA, labelB) / Math.max(labelA.length, labelB.length), reason: 'name edit distance' });
+  }
+  return candidates.reduce((best, candidate) => candidate.score > best.score ? candidate : best);
+}
+
+// Pairs of entities worth comparing: those sharing a normalized label, a label prefix, or an uncommon word.
+// Words and prefixes shared by more than DUPLICATE_BLOCK_LIMIT entities are skipped, and entities sharing a label
+// are only paired with the first of them, so the number of pairs stays close to linear in the number of entities.
+function duplicateCandidatePairs(entities: Entity[]): [number, number][] {
+  const blocks = new Map<string, number[]>();
+  entities.forEach((entity, position) => {
+    const label = entityLabel(entity);
+    const keys = new Set([`label:${label}`, `prefix:${label.slice(0, 4)}`]);
+    for (const token of `${label} ${descriptiveText(entity)}`.split(' ').filter(token => token.length > 2)) {
+      keys.add(`word:${token}`);
+    }
+    for (const key of keys) {
+      const block = blocks.get(key);
+      if (block) {
+        block.push(position);
+      } else {
+        blocks.set(key, [position]);
+      }
+    }
+  });
+  
+  const seen = new Set<number>();
+  const pairs: [number, number][] = [];
+  const addPair = (a: number, b: number) => {
+    const key = a * entities.length + b;
+    if (!seen.has(key)) {
+      seen.add(key);
+      pairs.push([a, b]);
+    }
+  };
+  for (const [key, positions] of blocks) {
+    if (positions.length < 2) {
+      continue;
+    }
+    if (key.startsWith('label:')) {
+      // Equal labels are always alike, so linking each to the first groups them just the same
+      for (const position of positions.slice(1)) {
+        addPair(positions[0], position);
+      }
+      continue;
+    }
+    if (positions.length > DUPLICATE_BLOCK_LIMIT) {
+      continue;
+    }
+    for (let i = 0; i < positions.length; i++) {
+      for (let j = i + 1; j < positions.length; j++) {
+        addPair(positions[i], positions[j]);
+      }
+    }
+  }
+  return pairs;
+}
+
+// Pick the relation that holds an entity's current status or priority from its has_status or has_priority
+// relations, in graph order. setEntityStatus and setEntityPriority replace the relation, so several only
+// appear in older or hand-edited graphs; the first one is current for every reader and for validate repair.
+function currentValueRelation(relations: Relation[]): Relation | undefined {
+  return relations[0];
+}
+
+// Kinds of integrity problem the validate tool reports
+type IntegrityCategory =
+  | 'danglingRelation'     // A relation endpoint does not exist
+  | 'duplicateRelation'    // The same relation is stored more than once
+  | 'invalidRelationType'  // A relation type outside VALID_RELATION_TYPES
+  | 'multipleStatus'       // More than one has_status relation from an entity
+  | 'multiplePriority'     // More than one has_priority relation from an entity
+  | 'invalidStatusTarget'  // has_status or has_priority pointing at something other than a status or priority value
+  | 'invalidRelationEndpoint' // A relation between entity types its relation schema does not allow
+  | 'cardinalityViolation' // More than one relation where the relation schema allows one, other than status and priority
+  | 'statusMismatch'       // A status attribute or "Status:" observation that contradicts has_status
+  | 'invalidEntityType'    // An entity type outside the known types
+  | 'duplicateEntity'      // More than one entity with the same name
+  | 'invalidAttribute';    // An attribute value that does not match the entity type's schema
+
+interface IntegrityIssue {
+  category: IntegrityCategory;
+  message: string;
+  entityName?: string;
+  relation?: Relation;
+  repairable: boolean;
+}
+
+// Map free-text status such as "done" or "active" to a valid status value, if it is recognizable
+function normalizeStatusValue(status: string): string | undefined {
+  const value = status.trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (VALID_STATUS_VALUES.includes(value)) {
+    return value;
+  }
+  if (['completed', 'done', 'finished', 'submitted'].includes(value)) {
+    return 'complete';
+  }
+  if (['started', 'working', 'active', 'current', 'ongoing'].includes(value)) {
+    return 'in_progress';
+  }
+  if (['todo', 'pending', 'upcoming', 'planned'].includes(value)) {
+    return 'not_started';
+  }
+  return undefined;
+}
+
+// Find every integrity problem in a graph. Repairable issues name the relation to remove, or the entity whose
+// stale status attribute to drop; the rest need a decision and are only reported.
+function checkGraphIntegrity(graph: KnowledgeGraph): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const entities = new Map<string, Entity>();
+  for (const entity of graph.entities) {
+    if (entities.has(entity.name)) {
+      issues.push({ category: 'duplicateEntity', message: `Entity '${entity.name}' is stored more than once`, entityName: entity.name, repairable: false });
+      continue;
+    }
+    entities.set(entity.name, entity);
+    if (!isValidEntityType(entity.entityType)) {
+      issues.push({ category: 'invalidEntityType', message: `Entity '${entity.name}' has unknown type '${entity.entityType}'`, entityName: entity.name, repairable: false });
+      continue;
+    }
+    try {
+      validateAttributes(entity.entityType, entity.attributes || {});
+    } catch (error) {
+      issues.push({ category: 'invalidAttribute', message: `Entity '${entity.name}': ${errorMessage(error)}`, entityName: entity.name, repairable: false });
+    }
+  }
+  
+  const seen = new Set<string>();
+  const singleValued = new Map<string, Relation[]>();
+  const statusRelations = new Map<string, Relation[]>();
+  for (const relation of graph.relations) {
+    const describe = `${relation.from} -${relation.relationType}-> ${relation.to}`;
+    const missing = [relation.from, relation.to].filter(name => !entities.has(name));
+    if (missing.length > 0) {
+      issues.push({ category: 'danglingRelation', message: `Relation ${describe} refers to missing ${missing.map(name => `'${name}'`).join(' and ')}`, relation, repairable: true });
+      continue;
+    }
+    if (seen.has(relationIdentity(relation))) {
+      issues.push({ category: 'duplicateRelation', message: `Relation ${describe} is stored more than once`, relation, repairable: true });
+      continue;
+    }
+    seen.add(relationIdentity(relation));
+    if (!VALID_RELATION_TYPES.includes(relation.relationType)) {
+      // Older versions of endsession wrote "resolves" for completed assignments, which has_status already records
+      const legacy = relation.relationType === 'resolves';
+      issues.push({ category: 'invalidRelationType', message: `Relation ${describe} has unknown type '${relation.relationType}'${legacy ? ' (completion is recorded by has_status)' : ''}`, relation, repairable: legacy });
+      continue;
+    }
+    if (relation.relationType === 'has_status' || relation.relationType === 'has_priority') {
+      const valueType = relation.relationType === 'has_status' ? 'status' : 'priority';
+      const values = valueType === 'status' ? VALID_STATUS_VALUES : VALID_PRIORITY_VALUES;
+      if (!values.some(value => relation.to === `${valueType}:${value}`)) {
+        issues.push({ category: 'invalidStatusTarget', message: `Relation ${describe} does not point at a ${valueType} value`, relation, repairable: false });
+        continue;
+      }
+    }
+    const toType = entities.get(relation.to)!.entityType;
+    const violation = relationSchemaViolation(relation, entities.get(relation.from)!.entityType, toType);
+    if (violation) {
+      issues.push({ category: 'invalidRelationEndpoint', message: `Relation ${describe}: ${violation}`, relation, repairable: false });
+      continue;
+    }
+    const key = cardinalityKey(relation, toType);
+    if (key) {
+      singleValued.set(key, [...(singleValued.get(key) || []), relation]);
+    }
+    if (relation.relationType === 'has_status') {
+      statusRelations.set(relation.from, [...(statusRelations.get(relation.from) || []), relation]);
+    }
+  }
+  
+  // Extra status and priority relations are repaired by keeping the one every reader treats as current.
+  // For other relations there is no telling which one is right, so they are only reported.
+  for (const relations of singleValued.values()) {
+    if (relations.length < 2) {
+      continue;
+    }
+    const relationType = relations[0].relationType;
+    if (relationType !== 'has_status' && relationType !== 'has_priority') {
+      issues.push({
+        category: 'cardinalityViolation',
+        message: `'${relations[0].from}' has ${relations.length} ${relationType} relations to ${entities.get(relations[0].to)!.entityType} entities (${relations.map(r => `'${r.to}'`).join(', ')}); only one is allowed`,
+        entityName: relations[0].from,
+        repairable: false
+      });
+      continue;
+    }
+    const current = currentValueRelation(relations)!;
+    const category: IntegrityCategory = relationType === 'has_status' ? 'multipleStatus' : 'multiplePriority';
+    for (const relation of relations.filter(r => r !== current)) {
+      issues.push({ category, message: `'${relation.from}' has ${relations.length} ${relationType} relations; keeping ${current.to}, the current one`, entityName: relation.from, relation, repairable: true });
+    }
+  }
+  
+  for (const entity of entities.values()) {
+    const status = currentValueRelation(statusRelations.get(entity.name) || [])?.to.split(':')[1];
+    if (!status) {
+      continue;
+    }
+    const recorded = [getAttributeText(entity, 'status'), findObservationValue(entity.observations, 'Status:')]
+      .filter((text): text is string => text !== undefined);
+    const contradicting = recorded.find(text => {
+      const normalized = normalizeStatusValue(text);
+      return normalized !== undefined && normalized !== status;
+    });
+    // Which of the two the student meant can't be told, and the course and term views read the attribute,
+    // so the mismatch is only reported
+    if (contradicting !== undefined) {
+      issues.push({ category: 'statusMismatch', message: `'${entity.name}' records status '${contradicting}' but has_status is ${status}`, entityName: entity.name, repairable: false });
+    }
+  }
+  return issues;
+}
+
+// Apply the repairable fixes to a graph in place, which all drop a relation
+function repairGraphIntegrity(graph: KnowledgeGraph, issues: IntegrityIssue[]): void {
+  const repairable = issues.filter(issue => issue.repairable);
+  const dropped = new Set(repairable.map(issue => issue.relation));
+  graph.relations = graph.relations.filter(r => !dropped.has(r));
+}
+
+// Issue counts by category
+function countIntegrityIssues(issues: IntegrityIssue[]): Partial<Record<IntegrityCategory, number>> {
+  const counts: Partial<Record<IntegrityCategory, number>> = {};
+  for (const issue of issues) {
+    counts[issue.category] = (counts[issue.category] || 0) + 1;
+  }
+  return counts;
+}
+
+// Search filter tree, parsed from queries such as `type:assignment status:in_progress due<2025-05-01`
+type QueryNode =
+  | { kind: 'and' | 'or'; children: QueryNode[] }
+  | { kind: 'not'; child: QueryNode }
+  | { kind: 'text'; value: string }
+  | { kind: 'field'; field: 'type' | 'status' | 'priority' | 'name'; value: string }
+  | { kind: 'attribute'; key: string; operator: QueryOperator; value: string }
+  | { kind: 'relation'; relationType: string; target?: string };
+
+type QueryOperator = '=' | '<' | '<=' | '>' | '>=';
+
+type QueryToken = { kind: 'open' } | { kind: 'close' } | { kind: 'phrase'; value: string } | { kind: 'word'; value: string };
+
+// Field names accepted before a colon, and the field each one filters on
+const QUERY_FIELDS: Record<string, 'type' | 'status' | 'priority' | 'name'> = {
+  type: 'type',
+  entitytype: 'type',
+  status: 'status',
+  priority: 'priority',
+  name: 'name'
+};
+
+// Split a query into parentheses, quoted phrases, and words. A word may contain a quoted part, as in
+// name:"Intro to CS", which keeps its spaces and parentheses.
+function tokenizeQuery(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  const readQuoted = (start: number): [string, number] => {
+    const end = query.indexOf('"', start + 1);
+    if (end < 0) {
+      throw new Error('Unclosed quote');
+    }
+    return [query.slice(start + 1, end), end + 1];
+  };
+  
+  let position = 0;
+  while (position < query.length) {
+    const char = query[position];
+    if (/\s/.test(char)) {
+      position++;
+    } else if (char === '(' || char === ')') {
+      tokens.push(char === '(' ? { kind: 'open' } : { kind: 'close' });
+      position++;
+    } else if (char === '"') {
+      const [value, next] = readQuoted(position);
+      tokens.push({ kind: 'phrase', value });
+      position = next;
+    } else {
+      let value = '';
+      while (position < query.length && !/[\s()]/.test(query[position])) {
+        if (query[position] === '"') {
+          const [quoted, next] = readQuoted(position);
+          value += quoted;
+          position = next;
+        } else {
+          value += query[position++];
+        }
+      }
+      tokens.push({ kind: 'word', value });
+    }
+  }
+  return tokens;
+}
+
+// A single filter: key<value comparisons, field:value, rel:type or rel:type=target, or a word to find as text
+function parseQueryTerm(word: string): QueryNode {
+  const comparison = word.match(/^([A-Za-z_]\w*)(<=|>=|<|>|=)(.*)$/);
+  if (comparison) {
+    const [, key, operator, value] = comparison;
+    if (!value) {
+      throw new Error(`Missing value after '${key}${operator}'`);
+    }
+    return { kind: 'attribute', key, operator: operator as QueryOperator, value };
+  }
+  
+  const field = word.match(/^([A-Za-z_]\w*):(.*)$/);
+  const name = field?.[1].toLowerCase();
+  if (field && (name === 'rel' || QUERY_FIELDS[name!])) {
+    if (!field[2]) {
+      throw new Error(`Missing value after '${field[1]}:'`);
+    }
+    if (name === 'rel') {
+      const [relationType, ...target] = field[2].split('=');
+      return { kind: 'relation', relationType, target: target.length > 0 ? target.join('=') : undefined };
+    }
+    return { kind: 'field', field: QUERY_FIELDS[name!], value: field[2] };
+  }
+  return { kind: 'text', value: word };
+}
+
+// Parse a query into a filter tree. Terms side by side (or joined by AND) must all match; OR binds looser
+// than AND; NOT or a leading "-" negates a term; parentheses group.
+function parseQuery(query: string): QueryNode {
+  const tokens = tokenizeQuery(query);
+  let position = 0;
+  const atWord = (word: string) => {
+    const token = tokens[position];
+    return token?.kind === 'word' && token.value === word;
+  };
+  
+  const parseOr = (): QueryNode => {
+    const children = [parseAnd()];
+    while (atWord('OR')) {
+      position++;
+      children.push(parseAnd());
+    }
+    return children.length === 1 ? children[0] : { kind: 'or', children };
+  };
+  const parseAnd = (): QueryNode => {
+    const children = [parseUnary()];
+    while (position < tokens.length && tokens[position].kind !== 'close' && !atWord('OR')) {
+      if (atWord('AND')) {
+        position++;
+      }
+      children.push(parseUnary());
+    }
+    return children.length === 1 ? children[0] : { kind: 'and', children };
+  };
+  const parseUnary = (): QueryNode => {
+    const token = tokens[position++];
+    if (!token) {
+      throw new Error('Unexpected end of query');
+    }
+    if (token.kind === 'open') {
+      const node = parseOr();
+      if (tokens[position]?.kind !== 'close') {
+        throw new Error('Missing closing parenthesis');
+      }
+      position++;
+      return node;
+    }
+    if (token.kind === 'close') {
+      throw new Error('Unexpected closing parenthesis');
+    }
+    if (token.kind === 'phrase') {
+      return { kind: 'text', value: token.value };
+    }
+    if (token.value === 'NOT') {
+      return { kind: 'not', child: parseUnary() };
+    }
+    if (token.value.length > 1 && token.value.startsWith('-')) {
+      return { kind: 'not', child: parseQueryTerm(token.value.slice(1)) };
+    }
+    return parseQueryTerm(token.value);
+  };
+  
+  const node = parseOr();
+  if (position < tokens.length) {
+    throw new Error('Unexpected closing parenthesis');
+  }
+  return node;
+}
+
+// The original search: every whitespace-separated word must appear somewhere in the entity
+function plainTextQuery(query: string): QueryNode {
+  return { kind: 'and', children: query.split(/\s+/).map(value => ({ kind: 'text', value })) };
+}
+
+// A date in a query: "today", "today+7d", "today-3d", or any format parseDateTimeValue accepts
+function parseQueryDate(value: string, today: string): CalendarDateTime | undefined {
+  const relative = value.match(/^today(?:([+-])(\d+)d?)?$/i);
+  if (relative) {
+    const offset = relative[2] ? Number(relative[2]) * (relative[1] === '-' ? -1 : 1) : 0;
+    return { date: addDays(today, offset) };
+  }
+  return parseDateTimeValue(value);
+}
+
+// Compare an attribute value with a query value: as dates when both are dates (a date-only value counts as
+// the end of its day), as numbers when both are numbers, and otherwise as case-insensitive text
+function compareQueryValue(raw: AttributeValue, operator: QueryOperator, value: string, today: string): boolean {
+  let comparison: number;
+  const wanted = parseQueryDate(value, today);
+  const actual = typeof raw === 'string' ? parseDateTimeValue(raw) : undefined;
+  if (wanted && actual) {
+    const left = wanted.time ? `${actual.date} ${actual.time ?? '23:59'}` : actual.date;
+    const right = wanted.time ? `${wanted.date} ${wanted.time}` : wanted.date;
+    comparison = left.localeCompare(right);
+  } else if (value.trim() !== '' && Number.isFinite(Number(raw)) && Number.isFinite(Number(value))) {
+    comparison = Number(raw) - Number(value);
+  } else {
+    comparison = String(raw).toLowerCase().localeCompare(value.toLowerCase());
+  }
+  switch (operator) {
+    case '=': return comparison === 0;
+    case '<': return comparison < 0;
+    case '<=': return comparison <= 0;
+    case '>': return comparison > 0;
+    case '>=': return comparison >= 0;
+  }
+}
+
+// Whether text appears anywhere in an entity's name, type, observations, or attribute values
+function containsText(entity: Entity, text: string): boolean {
+  const term = text.toLowerCase();
+  return entity.name.toLowerCase().includes(term) ||
+    entity.entityType.toLowerCase().includes(term) ||
+    entity.observations.some(o => o.toLowerCase().includes(term)) ||
+    Object.values(entity.attributes || {}).some(value => String(value).toLowerCase().includes(term));
+}
+
+// Whether an entity matches a filter tree. Status comes from has_status, then the status attribute, and is
+// not_started when neither is set, as in the course and term views.
+function matchesQuery(
+  entity: Entity,
+  node: QueryNode,
+  index: GraphIndex,
+  today: string,
+  matchesText: (entity: Entity, text: string) => boolean = containsText
+): boolean {
+  switch (node.kind) {
+    case 'and':
+      return node.children.every(child => matchesQuery(entity, child, index, today, matchesText));
+    case 'or':
+      return node.children.some(child => matchesQuery(entity, child, index, today, matchesText));
+    case 'not':
+      return !matchesQuery(entity, node.child, index, today, matchesText);
+    case 'text':
+      return matchesText(entity, node.value);
+    case 'field': {
+      const value = node.value.toLowerCase();
+      switch (node.field) {
+        case 'type':
+          return entity.entityType.toLowerCase() === value;
+        case 'name':
+          return entity.name.toLowerCase().includes(value);
+        case 'status': {
+          const attribute = getAttributeText(entity, 'status');
+          const status = currentValueRelation(index.outgoing(entity.name, 'has_status'))?.to.split(':')[1] ??
+            (attribute ? normalizeStatusValue(attribute) : undefined) ?? 'not_started';
+          return status === (normalizeStatusValue(value) ?? value);
+        }
+        case 'priority':
+          return currentValueRelation(index.outgoing(entity.name, 'has_priority'))?.to.split(':')[1] === value;
+      }
+    }
+    case 'relation': {
+      const relations = [
+        ...index.outgoing(entity.name, node.relationType).map(r => r.to),
+        ...(RELATION_SCHEMA[node.relationType]?.symmetric ? index.incoming(entity.name, node.relationType).map(r => r.from) : [])
+      ];
+      return node.target === undefined
+        ? relations.length > 0
+        : relations.some(name => name.toLowerCase() === node.target!.toLowerCase());
+    }
+    case 'attribute': {
+      // Attribute keys match case-insensitively, so "startdate" finds startDate
+      const keys = [...Object.keys(entity.attributes || {}), ...Object.keys(ENTITY_ATTRIBUTE_SCHEMA[entity.entityType] || {})];
+      const key = keys.find(k => k.toLowerCase() === node.key.toLowerCase()) ?? node.key;
+      const raw = getAttribute(entity, key);
+      return raw !== undefined && compareQueryValue(raw, node.operator, node.value, today);
+    }
+  }
+}
+
+// BM25 term frequency saturation and document length normalization
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// A word in an entity's name counts as this many occurrences in its observations
+const NAME_TERM_WEIGHT = 3;
+
+// Ranked search results returned per page when no limit is given
+const DEFAULT_SEARCH_LIMIT = 10;
+
+// Characters of a matching line quoted in a search snippet, and how many of them come before the first match
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40;
+
+// Lowercase words of a text, as the search index stores them
+function searchTerms(text: string): string[] {
+  return normalizeText(text).split(' ').filter(Boolean);
+}
+
+// Lines of an entity a search can match and quote: its observations, then its attribute values as "key: value".
+// Only the values are searched, so a query for "due" doesn't match every assignment.
+function searchableLines(entity: Entity): { text: string; searched: string }[] {
+  return [
+    ...entity.observations.map(observation => ({ text: observation, searched: observation })),
+    ...Object.entries(entity.attributes || {}).map(([key, value]) => ({ text: `${key}: ${value}`, searched: String(value) }))
+  ];
+}
+
+// Inverted index over entity names, observations, and attribute values for BM25-ranked search.
+// Like GraphIndex it describes one loaded graph and is rebuilt when the graph changes.
+class SearchIndex {
+  private readonly documents = new Map<string, { terms: Map<string, number>; length: number }>();
+  private readonly documentFrequency = new Map<string, number>();
+  private readonly averageLength: number;
+
+  constructor(graph: KnowledgeGraph) {
+    let totalLength = 0;
+    for (const entity of graph.entities) {
+      // The first entity with a name wins, as in GraphIndex
+      if (this.documents.has(entity.name)) {
+        continue;
+      }
+      const terms = new Map<string, number>();
+      const add = (text: string, weight: number) => {
+        for (const term of searchTerms(text)) {
+          terms.set(term, (terms.get(term) || 0) + weight);
+        }
+      };
+      add(entity.name, NAME_TERM_WEIGHT);
+      for (const line of searchableLines(entity)) {
+        add(line.searched, 1);
+      }
+      
+      const length = [...terms.values()].reduce((sum, count) => sum + count, 0);
+      totalLength += length;
+      this.documents.set(entity.name, { terms, length });
+      for (const term of terms.keys()) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+    }
+    this.averageLength = this.documents.size > 0 ? totalLength / this.documents.size : 0;
+  }
+
+  // Indexed words a query word stands for, weighted by how closely they match: the word itself and longer words
+  // it begins, or, when none of those are indexed, words within one edit of it (two for words over 8 letters)
+  expand(word: string): Map<string, number> {
+    const expansions = new Map<string, number>();
+    if (this.documentFrequency.has(word)) {
+      expansions.set(word, 1);
+    }
+    if (word.length >= 3) {
+      for (const term of this.documentFrequency.keys()) {
+        if (term.length > word.length && term.startsWith(word)) {
+          expansions.set(term, word.length / term.length);
+        }
+      }
+    }
+    if (expansions.size === 0 && word.length >= 4) {
+      const allowed = word.length > 8 ? 2 : 1;
+      for (const term of this.documentFrequency.keys()) {
+        if (Math.abs(term.length - word.length) <= allowed) {
+          const distance = editDistance(word, term);
+          if (distance <= allowed) {
+            expansions.set(term, 1 - distance / Math.max(word.length, term.length));
+          }
+        }
+      }
+    }
+    return expansions;
+  }
+
+  // Whether an entity's indexed text contains a word
+  contains(name: string, term: string): boolean {
+    return this.documents.get(name)?.terms.has(term) ?? false;
+  }
+
+  // BM25 score of an entity for query words, each given as its weighted expansions. A query word scores
+  // through its best-scoring expansion, so a word that begins many indexed words isn't counted many times.
+  score(name: string, words: Map<string, number>[]): number {
+    const document = this.documents.get(name);
+    if (!document) {
+      return 0;
+    }
+    let score = 0;
+    for (const expansions of words) {
+      let best = 0;
+      for (const [term, weight] of expansions) {
+        const frequency = document.terms.get(term);
+        if (!frequency) {
+          continue;
+        }
+        const matching = this.documentFrequency.get(term)!;
+        const idf = Math.log(1 + (this.documents.size - matching + 0.5) / (matching + 0.5));
+        const saturation = frequency * (BM25_K1 + 1) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * document.length / this.averageLength));
+        best = Math.max(best, weight * idf * saturation);
+      }
+      score += best;
+    }
+    return score;
+  }
+}
+
+// Words a query looks for as text, leaving out those under NOT
+function queryTextWords(node: QueryNode): string[] {
+  switch (node.kind) {
+    case 'and':
+    case 'or':
+      return node.children.flatMap(queryTextWords);
+    case 'text':
+      return searchTerms(node.value);
+    default:
+      return [];
+  }
+}
+
+// The entity line matching the most search words, cut to SNIPPET_LENGTH around the first match, with
+// matching words in **bold**. Entities that matched only by name have no snippet.
+function searchSnippet(entity: Entity, matched: Set<string>): string | undefined {
+  let best: { text: string; hits: number } | undefined;
+  for (const line of searchableLines(entity)) {
+    const hits = new Set(searchTerms(line.searched).filter(term => matched.has(term))).size;
+    if (hits > (best?.hits ?? 0)) {
+      best = { text: line.text, hits };
+    }
+  }
+  if (!best) {
+    return undefined;
+  }
+  
+  const { text } = best;
+  const matches = [...text.matchAll(/[A-Za-z0-9]+/g)].filter(match => matched.has(match[0].toLowerCase()));
+  const start = Math.max(0, (matches[0]?.index ?? 0) - SNIPPET_LEAD);
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  let snippet = '';
+  let position = start;
+  for (const match of matches) {
+    if (match.index! >= position && match.index! + match[0].length <= end) {
+      snippet += `${text.slice(position, match.index)}**${match[0]}**`;
+      position = match.index! + match[0].length;
+    }
+  }
+  snippet += text.slice(position, end);
+  return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
+
+// Turns texts into vectors whose cosine similarity reflects how alike their meaning is. Embeddings record the
+// provider name, so those from another provider are recomputed rather than compared.
+interface EmbeddingProvider {
+  readonly name: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+// Size of the built-in hashed vectors
+const HASHED_EMBEDDING_DIMENSIONS = 512;
+
+// Words too common to say what a text is about, including the ones questions are phrased with
+const EMBEDDING_STOP_WORDS = new Set([
+  'about', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'did', 'do', 'does', 'for', 'from', 'how', 'in', 'is',
+  'it', 'me', 'my', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who',
+  'why', 'with', 'write', 'wrote', 'you'
+]);
+
+// 32-bit FNV-1a hash of a string
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Offline embeddings that need no model or network. Each word, with a plural "s" dropped, and its character
+// trigrams are hashed into a fixed-size vector (the hashing trick) with log-scaled counts, so texts sharing words
+// or word parts, such as "eigenvalues" and "eigenvector", point the same way.
+class HashedEmbeddingProvider implements EmbeddingProvider {
+  readonly name = `hashed-${HASHED_EMBEDDING_DIMENSIONS}`;
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.vectorize(text));
+  }
+
+  private vectorize(text: string): number[] {
+    // Single letters and digits say as little as stop words
+    const counts = new Map<string, number>();
+    for (const term of searchTerms(text).filter(term => term.length > 1 && !EMBEDDING_STOP_WORDS.has(term))) {
+      const word = term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term;
+      counts.set(word, (counts.get(word) || 0) + 1);
+    }
+    
+    const vector = new Array<number>(HASHED_EMBEDDING_DIMENSIONS).fill(0);
+    const add = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // The top bit picks a sign so colliding features cancel out rather than pile up
+      vector[hash % HASHED_EMBEDDING_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+    };
+    for (const [word, count] of counts) {
+      const weight = 1 + Math.log(count);
+      add(`word:${word}`, weight);
+      // A word's trigrams together weigh as much as the word itself
+      const padded = `#${word}#`;
+      const trigrams = padded.length - 2;
+      for (let i = 0; i < trigrams; i++) {
+        add(`tri:${padded.slice(i, i + 3)}`, weight / trigrams);
+      }
+    }
+    return vector;
+  }
+}
+
+// Create the embedding provider named by EMBEDDING_PROVIDER
+function createEmbeddingProvider(provider: string): EmbeddingProvider {
+  switch (provider.toLowerCase()) {
+    case 'hashed':
+      return new HashedEmbeddingProvider();
+    default:
+      throw new Error(`Invalid embedding provider '${provider}'. Valid providers are: ${VALID_EMBEDDING_PROVIDERS.join(', ')}`);
+  }
+}
+
+// Entity types semantic search looks through unless asked for others. Only these store embeddings; other types
+// are embedded when a search asks for them.
+const SEMANTIC_ENTITY_TYPES: EntityType[] = ['note', 'concept'];
+
+// Semantic search results returned when no limit is given
+const DEFAULT_SEMANTIC_LIMIT = 5;
+
+// Text an entity's embedding is computed from: its name, observations, and attributes
+function embeddingText(entity: Entity): string {
+  return [entity.name, ...searchableLines(entity).map(line => line.text)].join('\n');
+}
+
+// Hash identifying the text an embedding was computed from
+function embeddingTextHash(text: string): string {
+  return createHash('sha1').update(text).digest('hex').slice(0, 16);
+}
+
+// Store a vector as base64 signed bytes, scaled so its largest component is 127 (cosine similarity ignores scale)
+function encodeEmbedding(vector: number[]): string {
+  const largest = Math.max(...vector.map(Math.abs)) || 1;
+  return Buffer.from(Int8Array.from(vector, value => Math.round(value / largest * 127)).buffer).toString('base64');
+}
+
+function decodeEmbedding(vector: string): number[] {
+  const bytes = Buffer.from(vector, 'base64');
+  return Array.from(new Int8Array(bytes.buffer, bytes.byteOffset, bytes.length));
+}
+
+// Cosine similarity of two vectors, 0 when either is all zeros
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// Entities a neighborhood returns when no cap is given
+const DEFAULT_NEIGHBORHOOD_NODES = 50;
+
+// Shared status and priority value entities (status:complete, priority:high). Nearly everything links to them,
+// so a neighborhood never expands through them.
+const VALUE_ENTITY_TYPES = ['status', 'priority'];
+
+// Hops a path search follows, and shortest paths it returns, when not given
+const DEFAULT_PATH_DEPTH = 6;
+const DEFAULT_PATH_LIMIT = 5;
+
+// Options for a neighborhood: how many hops to follow, which relation and entity types to follow, how many
+// entities to return, and whether to include status and priority value entities
+interface NeighborhoodOptions {
+  depth?: number;
+  relationTypes?: string[];
+  entityTypes?: EntityType[];
+  maxNodes?: number;
+  includeValueNodes?: boolean;
+}
+
+// The KnowledgeGraphManager class contains all operations to interact with the knowledge graph
+class KnowledgeGraphManager {
+  // Indexed graph for read-only queries and the storage change token it was loaded at
+  private cache?: { token: string; index: GraphIndex };
+  
+  // Embeddings by the hash of the text they were computed from, as last loaded, saved, or computed
+  private embeddingCache = new Map<string, EntityEmbedding>();
+
+  constructor(
+    private storage: GraphStorage = createGraphStorage(STORAGE_BACKEND),
+    private changeLogPath: string = CHANGELOG_FILE_PATH,
+    private snapshotDir: string = SNAPSHOT_DIR,
+    private embeddings: EmbeddingProvider = createEmbeddingProvider(EMBEDDING_PROVIDER)
+  ) {}
+
+  // Load a fresh copy of the graph for modification
+  private async loadGraph(): Promise<KnowledgeGraph> {
+    return this.detachEmbeddings(await this.storage.load());
+  }
+
+  // Save the graph, storing embeddings for the entity types semantic search looks through by default and computing
+  // them for entities whose text has changed
+  private async saveGraph(graph: KnowledgeGraph): Promise<void> {
+    const embedded = graph.entities.filter(entity => SEMANTIC_ENTITY_TYPES.includes(entity.entityType));
+    const embeddings = await this.embedEntities(embedded);
+    const entityEmbeddings = new Map(embedded.map((entity, i) => [entity, embeddings[i]]));
+    await this.storage.save({
+      entities: graph.entities.map(entity => entityEmbeddings.has(entity) ? { ...entity, embedding: entityEmbeddings.get(entity) } : entity),
+      relations: graph.relations
+    });
+    this.cache = undefined;
+    this.embeddingCache = new Map(embeddings.map(embedding => [embedding.textHash, embedding]));
+  }
+
+  // Split stored embeddings off a loaded graph and remember them, keeping vectors out of query results and the
+  // change log
+  private detachEmbeddings(graph: KnowledgeGraph): KnowledgeGraph {
+    for (const entity of graph.entities) {
+      if (entity.embedding) {
+        this.embeddingCache.set(entity.embedding.textHash, entity.embedding);
+        delete entity.embedding;
+      }
+    }
+    return graph;
+  }
+
+  // Embeddings for entities, reusing remembered ones for unchanged text and computing the rest in one batch
+  private async embedEntities(entities: Entity[]): Promise<EntityEmbedding[]> {
+    const texts = new Map<string, string>();
+    const hashes = entities.map(entity => {
+      const text = embeddingText(entity);
+      const hash = embeddingTextHash(text);
+      texts.set(hash, text);
+      return hash;
+    });
+    
+    const missing = [...texts.keys()].filter(hash => this.embeddingCache.get(hash)?.provider !== this.embeddings.name);
+    if (missing.length > 0) {
+      const vectors = await this.embeddings.embed(missing.map(hash => texts.get(hash)!));
+      missing.forEach((hash, i) => {
+        this.embeddingCache.set(hash, { provider: this.embeddings.name, textHash: hash, vector: encodeEmbedding(vectors[i]) });
+      });
+    }
+    return hashes.map(hash => this.embeddingCache.get(hash)!);
+  }
+
+  // Load the indexed graph for read-only queries, reloading only when the stored graph has changed.
+  // Entities and relations in the index are shared between calls and must not be modified.
+  private async loadIndex(): Promise<GraphIndex> {
+    const token = await this.storage.changeToken();
+    if (this.cache?.token !== token) {
+      this.cache = { token, index: new GraphIndex(this.detachEmbeddings(await this.storage.load())) };
+    }
+    return this.cache.index;
+  }
+
+  // Run a load-modify-save operation on the graph without interleaving with other writers
+  private async mutateGraph<T>(operation: () => Promise<T>): Promise<T> {
+    return this.storage.mutate(operation);
+  }
+
+  // Record a saved change in the change log, attributed to the given session; must be called inside mutateGraph after saving
+  private async logChange(operation: string, summary: string, change: GraphChange, sessionId?: string): Promise<void> {
+    if (change.entities.length === 0 && change.addedRelations.length === 0 && change.removedRelations.length === 0) {
+      return;
+    }
+    await appendChangeLog(this.changeLogPath, [{
+      id: generateChangeId(),
+      timestamp: new Date().toISOString(),
+      sessionId: sessionId || null,
+      operation,
+      summary,
+      change
+    }]);
+  }
+
+  // Initialize status and priority entities
+  async initializeStatusAndPriority(): Promise<void> {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      const entityCount = graph.entities.length;
+      
+      // Create status entities if they don't exist
+      for (const statusValue of VALID_STATUS_VALUES) {
+        const statusName = `status:${statusValue}`;
+        if (!graph.entities.some(e => e.name === statusName && e.entityType === 'status')) {
+          graph.entities.push({
+            name: statusName,
+            entityType: 'status' as EntityType,
+            observations: [`A ${statusValue} status value`]
+          });
+        }
+      }
+      
+      // Create priority entities if they don't exist
+      for (const priorityValue of VALID_PRIORITY_VALUES) {
+        const priorityName = `priority:${priorityValue}`;
+        if (!graph.entities.some(e => e.name === priorityName && e.entityType === 'priority')) {
+          graph.entities.push({
+            name: priorityName,
+            entityType: 'priority' as EntityType,
+            observations: [`A ${priorityValue} priority value`]
+          });
+        }
+      }
+      
+      // Only rewrite the file when a value entity was missing
+      if (graph.entities.length > entityCount) {
+        await this.saveGraph(graph);
+      }
+    });
+  }
+
+  // Helper method to get status of an entity
+  async getEntityStatus(entityName: string): Promise<string | null> {
+    const index = await this.loadIndex();
+    
+    // Find status relation for this entity
+    const statusRelation = currentValueRelation(index.outgoing(entityName, 'has_status'));
+    
+    if (statusRelation) {
+      // Extract status value from the status entity name (status:value)
+      return statusRelation.to.split(':')[1];
+    }
+    
+    return null;
+  }
+  
+  // Helper method to get priority of an entity
+  async getEntityPriority(entityName: string): Promise<string | null> {
+    const index = await this.loadIndex();
+    
+    // Find priority relation for this entity
+    const priorityRelation = currentValueRelation(index.outgoing(entityName, 'has_priority'));
+    
+    if (priorityRelation) {
+      // Extract priority value from the priority entity name (priority:value)
+      return priorityRelation.to.split(':')[1];
+    }
+    
+    return null;
+  }
+  
+  // Helper method to set status of an entity
+  async setEntityStatus(entityName: string, statusValue: string, sessionId?: string): Promise<void> {
+    return this.mutateGraph(async () => {
+      if (!VALID_STATUS_VALUES.includes(statusValue)) {
+        throw new Error(`Invalid status value: ${statusValue}. Valid values are: ${VALID_STATUS_VALUES.join(', ')}`);
+      }
+      
+      const graph = await this.loadGraph();
+      
+      // Remove any existing status relations for this entity
+      const removedRelations = graph.relations.filter(r => r.from === entityName && r.relationType === 'has_status');
+      graph.relations = graph.relations.filter(r => !removedRelations.includes(r));
+      
+      // Add new status relation
+      const relation: Relation = {
+        from: entityName,
+        to: `status:${statusValue}`,
+        relationType: 'has_status'
+      };
+      graph.relations.push(relation);
+      
+      await this.saveGraph(graph);
+      await this.logChange('setStatus', `Set status of ${entityName} to ${statusValue}`, {
+        entities: [],
+        addedRelations: [relation],
+        removedRelations
+      }, sessionId);
+    });
+  }
+  
+  // Helper method to set priority of an entity
+  async setEntityPriority(entityName: string, priorityValue: string, sessionId?: string): Promise<void> {
+    return this.mutateGraph(async () => {
+      if (!VALID_PRIORITY_VALUES.includes(priorityValue)) {
+        throw new Error(`Invalid priority value: ${priorityValue}. Valid values are: ${VALID_PRIORITY_VALUES.join(', ')}`);
+      }
+      
+      const graph = await this.loadGraph();
+      
+      // Remove any existing priority relations for this entity
+      const removedRelations = graph.relations.filter(r => r.from === entityName && r.relationType === 'has_priority');
+      graph.relations = graph.relations.filter(r => !removedRelations.includes(r));
+      
+      // Add new priority relation
+      const relation: Relation = {
+        from: entityName,
+        to: `priority:${priorityValue}`,
+        relationType: 'has_priority'
+      };
+      graph.relations.push(relation);
+      
+      await this.saveGraph(graph);
+      await this.logChange('setPriority', `Set priority of ${entityName} to ${priorityValue}`, {
+        entities: [],
+        addedRelations: [relation],
+        removedRelations
+      }, sessionId);
+    });
+  }
+
+  // Create entities; by default the whole batch fails if any entity is a duplicate or invalid
+  async createEntities(entities: Entity[], options: BatchOptions = {}) {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      
+      // Validate names, types, and attributes
+      const planned = planEntityCreation(graph, entities, options.upsert);
+      assertBatchApplies(planned, options);
+      const { created, updated } = plannedEntityStates(graph, planned);
+      
+      // Replace upserted entities in place and add new ones
+      const changes: GraphChange['entities'] = [];
+      for (const entity of updated) {
+        const position = graph.entities.findIndex(e => e.name === entity.name);
+        changes.push({ name: entity.name, before: graph.entities[position], after: entity });
+        graph.entities[position] = entity;
+      }
+      graph.entities.push(...created);
+      changes.push(...created.map(entity => ({ name: entity.name, before: null, after: entity })));
+      
+      // Save updated graph
+      if (changes.length > 0) {
+        await this.saveGraph(graph);
+        const summary = [
+          created.length > 0 ? `Created ${created.length} entities: ${created.map(e => e.name).join(', ')}` : '',
+          updated.length > 0 ? `Updated ${updated.length} entities: ${updated.map(e => e.name).join(', ')}` : ''
+        ].filter(Boolean).join('; ');
+        await this.logChange('createEntities', summary, { entities: changes, addedRelations: [], removedRelations: [] }, options.sessionId);
+      }
+      return { graph, ...summarizeBatch(planned, entity => ({ name: entity.name })) };
+    });
+  }
+
+  // Create relations; by default the whole batch fails if any relation exists already or is invalid
+  async createRelations(relations: Relation[], options: BatchOptions = {}) {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      
+      // Validate endpoints, relation types, and duplicates
+      const planned = planRelationCreation(graph, relations);
+      assertBatchApplies(planned, options);
+      const created = planned.filter(p => p.status === 'created').map(p => p.item);
+      
+      // Add relations
+      graph.relations.push(...created);
+      
+      // Save updated graph
+      if (created.length > 0) {
+        await this.saveGraph(graph);
+        await this.logChange('createRelations', `Created ${created.length} relations`, {
+          entities: [],
+          addedRelations: created,
+          removedRelations: []
+        }, options.sessionId);
+      }
+      return { graph, ...summarizeBatch(planned, relation => ({ from: relation.from, to: relation.to, relationType: relation.relationType })) };
+    });
+  }
+
+  // Add observations to several entities; by default nothing is added if any item is malformed or names a missing entity
+  async addObservationsBatch(items: { entityName: string; contents: string[] }[], options: BatchOptions = {}) {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      const planned = planObservationAddition(graph, items);
+      assertBatchApplies(planned, options);
+      
+      // Later items for the same entity build on earlier ones, so the last planned state of each entity wins
+      const updated = new Map<string, Entity>();
+      for (const { item } of planned.filter(p => p.status === 'updated')) {
+        updated.set(item.entityName, item.entity!);
+      }
+      const changes: GraphChange['entities'] = [];
+      for (const entity of updated.values()) {
+        const position = graph.entities.findIndex(e => e.name === entity.name);
+        changes.push({ name: entity.name, before: graph.entities[position], after: entity });
+        graph.entities[position] = entity;
+      }
+      
+      if (changes.length > 0) {
+        await this.saveGraph(graph);
+        const added = planned.filter(p => p.status === 'updated').reduce((sum, p) => sum + p.item.contents.length, 0);
+        await this.logChange('addObservations', `Added ${added} observations to ${changes.map(c => c.name).join(', ')}`, {
+          entities: changes,
+          addedRelations: [],
+          removedRelations: []
+        }, options.sessionId);
+      }
+      return summarizeBatch(planned, item => ({ entityName: item?.entityName }));
+    });
+  }
+
+  async addObservations(entityName: string, observations: string[], sessionId?: string): Promise<KnowledgeGraph> {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      
+      // Find the entity
+      const entity = graph.entities.find(e => e.name === entityName);
+      if (!entity) {
+        throw new Error(`Entity '${entityName}' not found`);
+      }
+      
+      // Add observations, lifting prefixed values such as "Due: ..." into attributes
+      const before = structuredClone(entity);
+      entity.observations.push(...observations);
+      liftObservationsToAttributes(entity);
+      
+      // Save updated graph
+      await this.saveGraph(graph);
+      await this.logChange('addObservations', `Added ${observations.length} observations to ${entityName}`, {
+        entities: [{ name: entityName, before, after: entity }],
+        addedRelations: [],
+        removedRelations: []
+      }, sessionId);
+      return graph;
+    });
+  }
+
+  async setAttributes(entityName: string, attributes: Record<string, unknown>, sessionId?: string): Promise<Entity> {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      
+      // Find the entity
+      const entity = graph.entities.find(e => e.name === entityName);
+      if (!entity) {
+        throw new Error(`Entity '${entityName}' not found`);
+      }
+      
+      // Merge validated attributes and drop legacy observations superseded by the new values
+      const before = structuredClone(entity);
+      applyAttributeUpdate(entity, attributes);
+      
+      await this.saveGraph(graph);
+      await this.logChange('setAttributes', `Set attributes ${Object.keys(attributes).join(', ')} on ${entityName}`, {
+        entities: [{ name: entityName, before, after: entity }],
+        addedRelations: [],
+        removedRelations: []
+      }, sessionId);
+      return entity;
+    });
+  }
+
+  // Lift legacy "Prefix: value" observations into typed attributes. Nothing is written unless an observation can
+  // be lifted; then an automatic snapshot is taken first and the migration is recorded in the change history.
+  async migrateObservationsToAttributes(): Promise<{ migratedEntities: number; unparsed: { entityName: string; observation: string }[]; snapshot?: any }> {
+    const current = (await this.loadIndex()).graph.entities.map(entity => structuredClone(entity));
+    const results = current.map(entity => ({ entityName: entity.name, ...liftObservationsToAttributes(entity) }));
+    if (!results.some(result => result.lifted.length > 0)) {
+      return {
+        migratedEntities: 0,
+        unparsed: results.flatMap(result => result.unparsed.map(observation => ({ entityName: result.entityName, observation })))
+      };
+    }
+    
+    const backup = await this.createSnapshot('Before migrating observations to attributes', true);
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      
+      const changes: GraphChange['entities'] = [];
+      const unparsed: { entityName: string; observation: string }[] = [];
+      for (const entity of graph.entities) {
+        const before = structuredClone(entity);
+        const result = liftObservationsToAttributes(entity);
+        if (result.lifted.length > 0) {
+          changes.push({ name: entity.name, before, after: entity });
+        }
+        unparsed.push(...result.unparsed.map(observation => ({ entityName: entity.name, observation })));
+      }
+      
+      // Only rewrite the file when something was lifted
+      if (changes.length > 0) {
+        await this.saveGraph(graph);
+        await this.logChange('migrateAttributes', `Migrated ${changes.length} entities to typed attributes`, {
+          entities: changes,
+          addedRelations: [],
+          removedRelations: []
+        });
+      }
+      return { migratedEntities: changes.length, unparsed, snapshot: backup.snapshot };
+    });
+  }
+
+  async deleteEntities(entityNames: string[], sessionId?: string): Promise<void> {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      const { entities: deletedEntities, relations: deletedRelations } = planEntityDeletion(graph, entityNames);
+      
+      // Remove the entities
+      graph.entities = graph.entities.filter(e => !entityNames.includes(e.name));
+      
+      // Remove relations that involve the deleted entities
+      graph.relations = graph.relations.filter(
+        r => !entityNames.includes(r.from) && !entityNames.includes(r.to)
+      );
+      
+      await this.saveGraph(graph);
+      await this.logChange('deleteEntities', `Deleted ${deletedEntities.length} entities and ${deletedRelations.length} relations: ${deletedEntities.map(e => e.name).join(', ')}`, {
+        entities: deletedEntities.map(entity => ({ name: entity.name, before: entity, after: null })),
+        addedRelations: [],
+        removedRelations: deletedRelations
+      }, sessionId);
+    });
+  }
+
+  async deleteObservations(deletions: { entityName: string; observations: string[] }[], sessionId?: string): Promise<void> {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      const changedEntities: GraphChange['entities'] = [];
+      
+      for (const deletion of deletions) {
+        const entity = graph.entities.find(e => e.name === deletion.entityName);
+        if (entity && entity.observations.some(o => deletion.observations.includes(o))) {
+          const before = structuredClone(entity);
+          
+          // Remove the specified observations
+          entity.observations = entity.observations.filter(
+            o => !deletion.observations.includes(o)
+          );
+          changedEntities.push({ name: entity.name, before, after: entity });
+        }
+      }
+      
+      await this.saveGraph(graph);
+      await this.logChange('deleteObservations', `Deleted observations from ${changedEntities.map(c => c.name).join(', ')}`, {
+        entities: changedEntities,
+        addedRelations: [],
+        removedRelations: []
+      }, sessionId);
+    });
+  }
+
+  async deleteRelations(relations: Relation[], sessionId?: string): Promise<void> {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      const { relations: deletedRelations } = planRelationDeletion(graph, relations);
+      
+      // Remove specified relations
+      graph.relations = graph.relations.filter(r => !deletedRelations.includes(r));
+      
+      await this.saveGraph(graph);
+      await this.logChange('deleteRelations', `Deleted ${deletedRelations.length} relations`, {
+        entities: [],
+        addedRelations: [],
+        removedRelations: deletedRelations
+      }, sessionId);
+    });
+  }
+
+  // Rename entities, rewriting every relation endpoint and session log reference to them. Renames apply in
+  // order and are saved only if all of them succeed; each is logged as its own change.
+  async renameEntities(renames: { oldName: string; newName: string }[], sessionId?: string): Promise<any[]> {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      const changes = renames.map(({ oldName, newName }) => renameInGraph(graph, oldName, newName));
+      if (changes.length === 0) {
+        return [];
+      }
+      
+      await this.saveGraph(graph);
+      const rewrites = await this.replaceSessionReferences(renames.map(({ oldName, newName }) => ({ from: oldName, to: newName })));
+      const results = [];
+      for (const [i, { oldName, newName }] of renames.entries()) {
+        const change: GraphChange = { ...changes[i], sessions: rewrites[i].sessions };
+        await this.logChange('renameEntity', `Renamed ${oldName} to ${newName}`, change, sessionId);
+        results.push({
+          entity: change.entities[1].after,
+          rewrittenRelations: change.addedRelations.length,
+          sessionReferences: rewrites[i].count
+        });
+      }
+      return results;
+    });
+  }
+
+  // Merge entities into others of the same type: each source's observations, missing attributes, and relations
+  // move to its target, duplicate relations collapse, and the source is deleted. Merges apply in order and are
+  // saved only if all of them succeed; each is logged as its own change.
+  async mergeEntities(merges: { sourceName: string; targetName: string }[], sessionId?: string): Promise<any[]> {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      const changes = merges.map(({ sourceName, targetName }) => mergeInGraph(graph, sourceName, targetName));
+      if (changes.length === 0) {
+        return [];
+      }
+      
+      await this.saveGraph(graph);
+      const rewrites = await this.replaceSessionReferences(merges.map(({ sourceName, targetName }) => ({ from: sourceName, to: targetName })));
+      const results = [];
+      for (const [i, { sourceName, targetName }] of merges.entries()) {
+        const change: GraphChange = { ...changes[i], sessions: rewrites[i].sessions };
+        await this.logChange('mergeEntities', `Merged ${sourceName} into ${targetName}`, change, sessionId);
+        results.push({
+          entity: change.entities[1].after,
+          movedRelations: change.addedRelations.length,
+          collapsedRelations: change.removedRelations.length - change.addedRelations.length,
+          sessionReferences: rewrites[i].count
+        });
+      }
+      return results;
+    });
+  }
+
+  // Point session log references to entities at other names, applying the replacements in order. Returns the
+  // session states each replacement rewrote, so the change can be undone, and how many references it rewrote.
+  private async replaceSessionReferences(replacements: { from: string; to: string }[]): Promise<{ sessions: SessionChange[]; count: number }[]> {
+    return updateSessionStates(sessionStates => replacements.map(({ from, to }) => {
+      const sessions: SessionChange[] = [];
+      let count = 0;
+      for (const [sessionId, stages] of sessionStates) {
+        const replaced = replaceNameReferences(stages, from, to);
+        if (replaced.count > 0) {
+          sessionStates.set(sessionId, replaced.value as any[]);
+          sessions.push({ sessionId, before: stages, after: replaced.value as any[] });
+          count += replaced.count;
+        }
+      }
+      return { sessions, count };
+    }));
+  }
+
+  // Check the graph for integrity problems, optionally repairing the safe ones (recorded in the change history)
+  async validateGraph(repair: boolean = false, sessionId?: string): Promise<any> {
+    if (!repair) {
+      const issues = checkGraphIntegrity((await this.loadIndex()).graph);
+      return { valid: issues.length === 0, issues, summary: countIntegrityIssues(issues) };
+    }
+    
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      const before = structuredClone(graph);
+      const found = checkGraphIntegrity(graph);
+      repairGraphIntegrity(graph, found);
+      
+      const repaired = found.filter(issue => issue.repairable);
+      if (repaired.length > 0) {
+        await this.saveGraph(graph);
+        await this.logChange('repairGraph', `Repaired ${repaired.length} integrity issues`, diffGraphs(before, graph), sessionId);
+      }
+      const remaining = checkGraphIntegrity(graph);
+      return {
+        valid: remaining.length === 0,
+        repaired,
+        issues: remaining,
+        summary: countIntegrityIssues(remaining)
+      };
+    });
+  }
+
+  // Group entities of the same type that look like duplicates, suggesting the entity each group should merge into
+  async findDuplicates(entityType?: EntityType, threshold: number = DUPLICATE_SIMILARITY): Promise<any> {
+    const index = await this.loadIndex();
+    const entityTypes = entityType ? [entityType] : [...new Set(index.graph.entities.map(e => e.entityType))];
+    const round = (score: number) => Math.round(score * 100) / 100;
+    
+    const clusters = [];
+    for (const type of entityTypes) {
+      const entities = index.ofType(type);
+      
+      // Join alike pairs into groups (union-find), remembering each entity's strongest match
+      const parent = entities.map((_, position) => position);
+      const root = (position: number): number => parent[position] === position ? position : (parent[position] = root(parent[position]));
+      const strongest = new Map<number, { other: number; score: number; reason: string }>();
+      for (const [a, b] of duplicateCandidatePairs(entities)) {
+        const similarity = entitySimilarity(entities[a], entities[b]);
+        if (similarity.score < threshold) {
+          continue;
+        }
+        parent[root(a)] = root(b);
+        for (const [position, other] of [[a, b], [b, a]]) {
+          if ((strongest.get(position)?.score ?? -1) < similarity.score) {
+            strongest.set(position, { other, ...similarity });
+          }
+        }
+      }
+      
+      const groups = new Map<number, number[]>();
+      for (const position of strongest.keys()) {
+        const group = groups.get(root(position));
+        if (group) {
+          group.push(position);
+        } else {
+          groups.set(root(position), [position]);
+        }
+      }
+      
+      for (const members of groups.values()) {
+        // Merge into a meaningfully named entity, then the best connected, then the most described, then the oldest
+        const connections = (position: number) => index.outgoing(entities[position].name).length + index.incoming(entities[position].name).length;
+        const [target, ...duplicates] = [...members].sort((a, b) =>
+          Number(GENERATED_CONCEPT_NAME.test(entities[a].name)) - Number(GENERATED_CONCEPT_NAME.test(entities[b].name)) ||
+          connections(b) - connections(a) ||
+          entities[b].observations.length - entities[a].observations.length ||
+          a - b
+        );
+        clusters.push({
+          entityType: type,
+          target: entities[target].name,
+          duplicates: duplicates.map(position => {
+            const match = strongest.get(position)!;
+            return { name: entities[position].name, similarTo: entities[match.other].name, similarity: round(match.score), reason: match.reason };
+          }),
+          merges: duplicates.map(position => ({ sourceName: entities[position].name, targetName: entities[target].name }))
+        });
+      }
+    }
+    
+    clusters.sort((a, b) => b.duplicates.length - a.duplicates.length || a.target.localeCompare(b.target));
+    return {
+      threshold,
+      clusters,
+      summary: {
+        clusterCount: clusters.length,
+        duplicateCount: clusters.reduce((sum, cluster) => sum + cluster.duplicates.length, 0)
+      }
+    };
+  }
+
+  // Find the existing concept a name and description refer to: an exact normalized match on a name or
+  // observation first, then the most similar concept at or above the duplicate threshold. Only an exact match
+  // is certain to be the same concept; a similar one is reported with its similarity so it can be merged by hand.
+  async findConcept(name: string, description?: string): Promise<{ concept: Entity; exact: boolean; similarity: number } | undefined> {
+    const concepts = (await this.loadIndex()).ofType('concept');
+    const names = [name, description].filter((text): text is string => !!text).map(normalizeText);
+    const exact = concepts.find(c => names.includes(normalizeText(c.name)) || names.includes(entityLabel(c))) ||
+      (description ? concepts.find(c => c.observations.some(o => normalizeText(o) === normalizeText(description))) : undefined);
+    if (exact) {
+      return { concept: exact, exact: true, similarity: 1 };
+    }
+    
+    const probe: Entity = { name, entityType: 'concept', observations: description ? [description] : [] };
+    let best: { concept: Entity; score: number } | undefined;
+    for (const concept of concepts) {
+      const { score } = entitySimilarity(probe, concept);
+      if (score >= DUPLICATE_SIMILARITY && (!best || score > best.score)) {
+        best = { concept, score };
+      }
+    }
+    return best && { concept: best.concept, exact: false, similarity: best.score };
+  }
+
+  // Preview createEntities: what would happen to each entity, and the entities as they would be stored
+  async previewCreateEntities(entities: Entity[], upsert: boolean = false): Promise<any> {
+    const { graph } = await this.loadIndex();
+    const planned = planEntityCreation(graph, entities, upsert);
+    const { created, updated } = plannedEntityStates(graph, planned);
+    return {
+      ...summarizeBatch(planned, entity => ({ name: entity.name })),
+      wouldCreate: created,
+      wouldUpdate: updated
+    };
+  }
+
+  // Preview createRelations: what would happen to each relation
+  async previewCreateRelations(relations: Relation[]): Promise<any> {
+    const planned = planRelationCreation((await this.loadIndex()).graph, relations);
+    return summarizeBatch(planned, relation => ({ from: relation.from, to: relation.to, relationType: relation.relationType }));
+  }
+
+  // Preview addObservations for several entities: what would happen to each item, and each entity as it would be stored
+  async previewAddObservations(items: { entityName: string; contents: string[] }[]): Promise<any> {
+    const planned = planObservationAddition((await this.loadIndex()).graph, items);
+    return {
+      ...summarizeBatch(planned, item => ({ entityName: item?.entityName })),
+      wouldUpdate: planned.filter(p => p.status === 'updated').map(p => p.item.entity)
+    };
+  }
+
+  // Preview setAttributes for several entities: each entity as it would be stored
+  async previewSetAttributes(items: { entityName: string; attributes: Record<string, unknown> }[]): Promise<any> {
+    const index = await this.loadIndex();
+    const wouldUpdate = [];
+    const rejected = [];
+    for (const item of items) {
+      const entity = index.entity(item.entityName);
+      if (!entity) {
+        rejected.push({ item, reason: `Entity '${item.entityName}' not found` });
+        continue;
+      }
+      try {
+        const updated = structuredClone(entity);
+        applyAttributeUpdate(updated, item.attributes || {});
+        wouldUpdate.push(updated);
+      } catch (error) {
+        rejected.push({ item, reason: errorMessage(error) });
+      }
+    }
+    return { wouldUpdate, rejected };
+  }
+
+  // Preview recording scores: the assignments and exams that would be updated, and scores that would be rejected.
+  // Items are applied in order, so a later score for the same entity replaces an earlier one as it would when saving.
+  async previewRecordScores(items: { entityName: string; earned: unknown; possible: unknown }[]): Promise<any> {
+    const index = await this.loadIndex();
+    const updated = new Map<string, Entity>();
+    const rejected = [];
+    for (const item of items) {
+      const entity = updated.get(item.entityName) || index.entity(item.entityName);
+      if (!entity) {
+        rejected.push({ item, reason: `Entity '${item.entityName}' not found` });
+        continue;
+      }
+      try {
+        const next = structuredClone(entity);
+        applyScore(next, Number(item.earned), Number(item.possible));
+        updated.set(item.entityName, next);
+      } catch (error) {
+        rejected.push({ item, reason: errorMessage(error) });
+      }
+    }
+    return { wouldUpdate: [...updated.values()], rejected };
+  }
+
+  // Preview recording review outcomes: the schedule each review would produce, and reviews that would be rejected.
+  // Repeated reviews of one concept build on each other as they would when saving.
+  async previewRecordReviews(items: { conceptName: string; outcome: string }[], reviewDate: Date = new Date()): Promise<any> {
+    const index = await this.loadIndex();
+    const updated = new Map<string, Entity>();
+    const wouldReview = [];
+    const rejected = [];
+    for (const item of items) {
+      const stored = index.entity(item.conceptName);
+      const concept = updated.get(item.conceptName) || (stored?.entityType === 'concept' ? stored : undefined);
+      if (!concept) {
+        rejected.push({ item, reason: `Concept '${item.conceptName}' not found` });
+        continue;
+      }
+      try {
+        const next = structuredClone(concept);
+        const { reviewState } = applyReview(next, item.outcome, reviewDate);
+        updated.set(item.conceptName, next);
+        wouldReview.push({
+          conceptName: item.conceptName,
+          outcome: item.outcome,
+          nextReview: reviewState.nextReview,
+          interval: reviewState.interval,
+          ease: reviewState.ease
+        });
+      } catch (error) {
+        rejected.push({ item, reason: errorMessage(error) });
+      }
+    }
+    return { wouldReview, wouldUpdate: [...updated.values()], rejected };
+  }
+
+  // Preview deleteEntities: the entities that would be deleted and every relation that would disappear with them
+  async previewDeleteEntities(entityNames: string[]): Promise<any> {
+    const plan = planEntityDeletion((await this.loadIndex()).graph, entityNames);
+    return { wouldDelete: plan.entities, wouldDeleteRelations: plan.relations, notFound: plan.notFound };
+  }
+
+  // Preview deleteRelations: the relations that would be deleted, and requested relations that don't exist
+  async previewDeleteRelations(relations: Relation[]): Promise<any> {
+    const plan = planRelationDeletion((await this.loadIndex()).graph, relations);
+    return { wouldDelete: plan.relations, notFound: plan.notFound };
+  }
+
+  // Preview deleteObservations: the observations that would be deleted, and those that don't exist
+  async previewDeleteObservations(deletions: { entityName: string; observations: string[] }[]): Promise<any> {
+    const plan = planObservationDeletion((await this.loadIndex()).graph, deletions);
+    return { wouldDelete: plan.found, notFound: plan.notFound };
+  }
+
+  // List recent changes, most recent first, optionally only those made in one session
+  async listChanges(limit: number = 20, sessionId?: string): Promise<any> {
+    const entries = await readChangeLog(this.changeLogPath);
+    const { undoable, redoable } = changeStacks(entries);
+    const undoableIds = new Set(undoable.map(entry => entry.id));
+    
+    const changes = entries
+      .filter(entry => !sessionId || entry.sessionId === sessionId)
+      .reverse()
+      .slice(0, limit)
+      .map(entry => ({
+        id: entry.id,
+        timestamp: entry.timestamp,
+        sessionId: entry.sessionId,
+        operation: entry.operation,
+        summary: entry.summary,
+        ...(entry.changeId ? { changeId: entry.changeId } : {}),
+        ...(entry.change ? { undone: !undoableIds.has(entry.id) } : {})
+      }));
+    
+    return {
+      changes,
+      summary: {
+        totalChanges: entries.length,
+        undoableCount: undoable.length,
+        redoableCount: redoable.length
+      }
+    };
+  }
+
+  // Undo the most recent changes that have not been undone yet, newest first
+  async undoChanges(count: number = 1, sessionId?: string): Promise<any> {
+    return this.revertChanges('undo', count, sessionId);
+  }
+
+  // Reapply the most recently undone changes, as long as no new change has been made since
+  async redoChanges(count: number = 1, sessionId?: string): Promise<any> {
+    return this.revertChanges('redo', count, sessionId);
+  }
+
+  // Apply the newest changes on the undo or redo stack and log that they were undone or redone
+  private async revertChanges(direction: 'undo' | 'redo', count: number, sessionId?: string): Promise<any> {
+    return this.mutateGraph(async () => {
+      const { undoable, redoable } = changeStacks(await readChangeLog(this.changeLogPath));
+      const selected = (direction === 'undo' ? undoable : redoable).slice(-count).reverse();
+      if (selected.length === 0) {
+        throw new Error(direction === 'undo' ? 'There are no changes to undo' : 'There are no undone changes to redo');
+      }
+      
+      const graph = await this.loadGraph();
+      const warnings: string[] = [];
+      for (const entry of selected) {
+        warnings.push(...applyGraphChange(graph, entry.change!, direction));
+      }
+      await this.saveGraph(graph);
+      if (selected.some(entry => entry.change!.sessions?.length)) {
+        warnings.push(...await updateSessionStates(sessionStates =>
+          selected.flatMap(entry => applySessionChange(sessionStates, entry.change!, direction))));
+      }
+      
+      const timestamp = new Date().toISOString();
+      await appendChangeLog(this.changeLogPath, selected.map(entry => ({
+        id: generateChangeId(),
+        timestamp,
+        sessionId: sessionId || null,
+        operation: direction,
+        summary: `${direction === 'undo' ? 'Undid' : 'Redid'}: ${entry.summary}`,
+        changeId: entry.id
+      })));
+      
+      return {
+        [direction === 'undo' ? 'undone' : 'redone']: selected.map(entry => ({
+          id: entry.id,
+          timestamp: entry.timestamp,
+          sessionId: entry.sessionId,
+          operation: entry.operation,
+          summary: entry.summary
+        })),
+        warnings
+      };
+    });
+  }
+
+  // Save a snapshot of the knowledge graph and sessions, then remove the oldest snapshots beyond the retention limit
+  async createSnapshot(name: string, automatic: boolean = false): Promise<any> {
+    const snapshot: Snapshot = {
+      id: generateSnapshotId(),
+      name,
+      createdAt: new Date().toISOString(),
+      automatic,
+      graph: await this.loadGraph(),
+      sessions: Object.fromEntries(await loadSessionStates())
+    };
+    const info = snapshotInfo(snapshot);
+    await fs.mkdir(this.snapshotDir, { recursive: true });
+    await writeFileAtomic(path.join(this.snapshotDir, `${snapshot.id}.json`), JSON.stringify(snapshot));
+    await writeFileAtomic(path.join(this.snapshotDir, `${snapshot.id}.meta.json`), JSON.stringify(info));
+    
+    // Rotate out automatic snapshots before named ones, oldest first
+    const snapshots = await readSnapshotInfos(this.snapshotDir);
+    const removable = [...snapshots.filter(s => s.automatic), ...snapshots.filter(s => !s.automatic)]
+      .filter(s => s.id !== snapshot.id);
+    const removed = removable.slice(0, Math.max(0, snapshots.length - SNAPSHOT_RETENTION));
+    for (const old of removed) {
+      await fs.rm(path.join(this.snapshotDir, `${old.id}.json`), { force: true });
+      await fs.rm(path.join(this.snapshotDir, `${old.id}.meta.json`), { force: true });
+    }
+    
+    return {
+      snapshot: describeSnapshot(info),
+      removed: removed.map(s => ({ id: s.id, name: s.name, createdAt: s.createdAt }))
+    };
+  }
+
+  // Take the automatic snapshot at the start of a session, unless the graph is unchanged since the last automatic
+  // snapshot. Returns the new snapshot, or undefined when none was needed.
+  async createSessionSnapshot(sessionId: string): Promise<any> {
+    const latest = (await readSnapshotInfos(this.snapshotDir)).filter(s => s.automatic).pop();
+    if (latest && latest.graphHash === hashGraph(await this.loadGraph())) {
+      return undefined;
+    }
+    return this.createSnapshot(`Start of session ${sessionId}`, true);
+  }
+
+  // List snapshots, most recent first
+  async listSnapshots(): Promise<any> {
+    const snapshots = await readSnapshotInfos(this.snapshotDir);
+    return {
+      snapshots: snapshots.reverse().map(describeSnapshot),
+      retention: SNAPSHOT_RETENTION
+    };
+  }
+
+  // Compare a snapshot with another snapshot, or with the current graph when no second snapshot is given
+  async diffSnapshots(fromReference: string, toReference?: string): Promise<any> {
+    const snapshots = await readSnapshotInfos(this.snapshotDir);
+    const from = await readSnapshot(this.snapshotDir, findSnapshot(snapshots, fromReference).id);
+    const to = toReference ? await readSnapshot(this.snapshotDir, findSnapshot(snapshots, toReference).id) : undefined;
+    const toGraph = to ? to.graph : (await this.loadIndex()).graph;
+    const change = diffGraphs(from.graph, toGraph);
+    
+    const addedEntities = change.entities.filter(e => e.before === null).map(e => e.name);
+    const removedEntities = change.entities.filter(e => e.after === null).map(e => e.name);
+    const changedEntities = change.entities.filter(e => e.before !== null && e.after !== null).map(e => e.name);
+    return {
+      from: describeSnapshot(snapshotInfo(from)),
+      to: to ? describeSnapshot(snapshotInfo(to)) : { name: 'current', entityCount: toGraph.entities.length, relationCount: toGraph.relations.length },
+      addedEntities,
+      removedEntities,
+      changedEntities,
+      addedRelations: change.addedRelations,
+      removedRelations: change.removedRelations,
+      summary: {
+        entityCountChange: toGraph.entities.length - from.graph.entities.length,
+        relationCountChange: toGraph.relations.length - from.graph.relations.length,
+        addedEntityCount: addedEntities.length,
+        removedEntityCount: removedEntities.length,
+        changedEntityCount: changedEntities.length,
+        addedRelationCount: change.addedRelations.length,
+        removedRelationCount: change.removedRelations.length
+      }
+    };
+  }
+
+  // Restore the knowledge graph and sessions from a snapshot, taking a snapshot of the current state first.
+  // Sessions started after the snapshot are kept, and the restore is logged so it can be undone.
+  async restoreSnapshot(reference: string, sessionId?: string): Promise<any> {
+    const snapshots = await readSnapshotInfos(this.snapshotDir);
+    const snapshot = await readSnapshot(this.snapshotDir, findSnapshot(snapshots, reference).id);
+    const backup = await this.createSnapshot(`Before restoring ${snapshot.name}`, true);
+    
+    const change = await this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      const change = diffGraphs(graph, snapshot.graph);
+      await this.saveGraph(snapshot.graph);
+      await this.logChange('restoreSnapshot', `Restored snapshot ${snapshot.name} (${snapshot.createdAt})`, change, sessionId);
+      return change;
+    });
+    
+    await updateSessionStates(sessionStates => {
+      for (const [sessionId, stages] of Object.entries(snapshot.sessions)) {
+        sessionStates.set(sessionId, stages);
+      }
+    });
+    
+    return {
+      restored: describeSnapshot(snapshotInfo(snapshot)),
+      backup: backup.snapshot,
+      summary: {
+        changedEntityCount: change.entities.length,
+        addedRelationCount: change.addedRelations.length,
+        removedRelationCount: change.removedRelations.length
+      }
+    };
+  }
+
+  // A copy of the whole graph, so callers cannot change the cached index
+  async readGraph(): Promise<KnowledgeGraph> {
+    return structuredClone((await this.loadIndex()).graph);
+  }
+
+  // Search entities with the query language: field filters, relations, attribute comparisons, quoted phrases,
+  // OR, and NOT. A query that cannot be parsed falls back to matching each word as text.
+  async searchNodes(query: string): Promise<KnowledgeGraph> {
+    const index = await this.loadIndex();
+    const { graph } = index;
+    
+    let filter: QueryNode;
+    try {
+      filter = parseQuery(query);
+    } catch {
+      filter = plainTextQuery(query);
+    }
+    
+    const today = studentToday();
+    const matchingEntityNames = new Set(
+      graph.entities.filter(entity => matchesQuery(entity, filter, index, today)).map(entity => entity.name)
+    );
+    
+    // Find relations between matching entities
+    const matchingRelations = graph.relations.filter(r => 
+      matchingEntityNames.has(r.from) && matchingEntityNames.has(r.to)
+    );
+    
+    // Return matching entities and their relations
+    return {
+      entities: graph.entities.filter(e => matchingEntityNames.has(e.name)),
+      relations: matchingRelations
+    };
+  }
+
+  // Rank the entities a search query matches by BM25 relevance of its words to their names, observations, and
+  // attribute values, one page at a time. Words also find longer words they begin and close misspellings.
+  async rankedSearch(query: string, limit: number = DEFAULT_SEARCH_LIMIT, offset: number = 0): Promise<any> {
+    const index = await this.loadIndex();
+    const search = index.search();
+    
+    let filter: QueryNode;
+    try {
+      filter = parseQuery(query);
+    } catch {
+      filter = plainTextQuery(query);
+    }
+    
+    // Each distinct query word's expansions, shared by filtering and scoring
+    const expansions = new Map<string, Map<string, number>>();
+    const expand = (word: string) => {
+      if (!expansions.has(word)) {
+        expansions.set(word, search.expand(word));
+      }
+      return expansions.get(word)!;
+    };
+    const matchesText = (entity: Entity, text: string) => {
+      const words = searchTerms(text);
+      return containsText(entity, text) ||
+        (words.length > 0 && words.every(word => [...expand(word).keys()].some(term => search.contains(entity.name, term))));
+    };
+    const words = [...new Set(queryTextWords(filter))].map(expand);
+    
+    const today = studentToday();
+    const ranked = index.graph.entities
+      .filter(entity => matchesQuery(entity, filter, index, today, matchesText))
+      .map(entity => ({ entity, score: search.score(entity.name, words) }))
+      .sort((a, b) => b.score - a.score);
+    
+    return {
+      query,
+      total: ranked.length,
+      offset,
+      limit,
+      results: ranked.slice(offset, offset + limit).map(({ entity, score }) => {
+        const matchedTerms = [...new Set(words.flatMap(word => [...word.keys()]))].filter(term => search.contains(entity.name, term));
+        return {
+          name: entity.name,
+          entityType: entity.entityType,
+          score: Math.round(score * 1000) / 1000,
+          matchedTerms,
+          snippet: searchSnippet(entity, new Set(matchedTerms))
+        };
+      })
+    };
+  }
+
+  // Find the entities closest in meaning to a natural-language query by cosine similarity of their embeddings,
+  // quoting the line of each that is closest to the query
+  async semanticSearch(query: string, limit: number = DEFAULT_SEMANTIC_LIMIT, entityTypes: EntityType[] = SEMANTIC_ENTITY_TYPES): Promise<any> {
+    const index = await this.loadIndex();
+    const entities = [...new Set(entityTypes)].flatMap(type => index.ofType(type));
+    const [queryVector] = await this.embeddings.embed([query]);
+    const embeddings = await this.embedEntities(entities);
+    const ranked = entities
+      .map((entity, i) => ({ entity, similarity: cosineSimilarity(queryVector, decodeEmbedding(embeddings[i].vector)) }))
+      .filter(result => result.similarity > 0)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, limit);
+    
+    const lines = ranked.map(({ entity }) => searchableLines(entity).map(line => line.text));
+    const lineVectors = await this.embeddings.embed(lines.flat());
+    let position = 0;
+    return {
+      query,
+      provider: this.embeddings.name,
+      results: ranked.map(({ entity, similarity }, i) => {
+        const similarities = lineVectors.slice(position, position += lines[i].length).map(vector => cosineSimilarity(queryVector, vector));
+        const closest = similarities.indexOf(Math.max(...similarities));
+        return {
+          name: entity.name,
+          entityType: entity.entityType,
+          similarity: Math.round(similarity * 1000) / 1000,
+          excerpt: closest >= 0 && similarities[closest] > 0 ? lines[i][closest] : undefined
+        };
+      })
+    };
+  }
+
+  // Bring stored embeddings up to date: embed entities of the semantic types saved without a current embedding,
+  // such as those saved before semantic search or by another embedding provider, and drop embeddings stored on
+  // other types by earlier versions. Returns how many entities were updated.
+  async embedMissingEntities(): Promise<number> {
+    return this.mutateGraph(async () => {
+      const stored = await this.storage.load();
+      const outdated = stored.entities.filter(({ embedding, ...entity }) => SEMANTIC_ENTITY_TYPES.includes(entity.entityType)
+        ? embedding?.provider !== this.embeddings.name || embedding.textHash !== embeddingTextHash(embeddingText(entity))
+        : embedding !== undefined
+      ).length;
+      if (outdated > 0) {
+        await this.saveGraph(this.detachEmbeddings(stored));
+      }
+      return outdated;
+    });
+  }
+
+  async openNodes(names: string[]): Promise<KnowledgeGraph> {
+    const index = await this.loadIndex();
+    const nameSet = new Set(names);
+    
+    // Find the specified entities
+    const entities = index.graph.entities.filter(e => nameSet.has(e.name));
+    
+    // Find relations between the specified entities
+    const relations = [...nameSet].flatMap(name => index.outgoing(name)).filter(r => nameSet.has(r.to));
+    
+    return {
+      entities,
+      relations
+    };
+  }
+
+  // Extract the entities within a number of hops of the given entities, following relations in either direction,
+  // and the relations among them. Closer entities are kept first when the node cap is reached.
+  async getNeighborhood(names: string[], options: NeighborhoodOptions = {}): Promise<any> {
+    const { depth = 1, relationTypes, entityTypes, maxNodes = DEFAULT_NEIGHBORHOOD_NODES, includeValueNodes = false } = options;
+    const index = await this.loadIndex();
+    for (const name of names) {
+      if (!index.entity(name)) {
+        throw new Error(`Entity '${name}' not found`);
+      }
+    }
+    
+    const follows = (relation: Relation) => !relationTypes || relationTypes.includes(relation.relationType);
+    const admits = (entity: Entity) =>
+      VALUE_ENTITY_TYPES.includes(entity.entityType) ? includeValueNodes : !entityTypes || entityTypes.includes(entity.entityType);
+    
+    // Breadth-first from every starting entity at once, so each entity is reached by its shortest hop count
+    const hops = new Map<string, number>(names.map(name => [name, 0]));
+    let frontier = [...new Set(names)];
+    let truncated = false;
+    for (let hop = 1; hop <= depth && frontier.length > 0 && !truncated; hop++) {
+      const next: string[] = [];
+      for (const name of frontier) {
+        const neighbors = [
+          ...index.outgoing(name).filter(follows).map(relation => relation.to),
+          ...index.incoming(name).filter(follows).map(relation => relation.from)
+        ];
+        for (const neighbor of neighbors) {
+          const entity = index.entity(neighbor);
+          if (hops.has(neighbor) || !entity || !admits(entity)) {
+            continue;
+          }
+          if (hops.size >= maxNodes) {
+            truncated = true;
+            break;
+          }
+          hops.set(neighbor, hop);
+          if (!VALUE_ENTITY_TYPES.includes(entity.entityType)) {
+            next.push(neighbor);
+          }
+        }
+        if (truncated) {
+          break;
+        }
+      }
+      frontier = next;
+    }
+    
+    return {
+      entities: [...hops.keys()].map(name => index.entity(name)!),
+      relations: [...hops.keys()].flatMap(name => index.outgoing(name)).filter(relation => follows(relation) && hops.has(relation.to)),
+      hops: Object.fromEntries(hops),
+      truncated
+    };
+  }
+
+  // Find the shortest paths between two entities, following relations in either direction and optionally only some
+  // relation types. Paths never pass through status and priority value entities, since sharing a status doesn't
+  // connect two entities in any meaningful way.
+  async findPaths(
+    fromName: string,
+    toName: string,
+    relationTypes?: string[],
+    maxDepth: number = DEFAULT_PATH_DEPTH,
+    maxPaths: number = DEFAULT_PATH_LIMIT
+  ): Promise<any> {
+    const index = await this.loadIndex();
+    for (const name of [fromName, toName]) {
+      if (!index.entity(name)) {
+        throw new Error(`Entity '${name}' not found`);
+      }
+    }
+    const follows = (relation: Relation) => !relationTypes || relationTypes.includes(relation.relationType);
+    
+    // Breadth-first from the start, remembering every relation each entity is first reached through
+    const reachedFrom = new Map<string, { name: string; relation: Relation }[]>([[fromName, []]]);
+    let frontier = [fromName];
+    let length = 0;
+    while (!reachedFrom.has(toName) && frontier.length > 0 && length < maxDepth) {
+      length++;
+      const level = new Map<string, { name: string; relation: Relation }[]>();
+      const reach = (neighbor: string, name: string, relation: Relation) => {
+        if (!reachedFrom.has(neighbor) && index.entity(neighbor)) {
+          level.set(neighbor, [...(level.get(neighbor) || []), { name, relation }]);
+        }
+      };
+      for (const name of frontier) {
+        if (name !== fromName && VALUE_ENTITY_TYPES.includes(index.entity(name)!.entityType)) {
+          continue;
+        }
+        index.outgoing(name).filter(follows).forEach(relation => reach(relation.to, name, relation));
+        index.incoming(name).filter(follows).forEach(relation => reach(relation.from, name, relation));
+      }
+      for (const [name, ways] of level) {
+        reachedFrom.set(name, ways);
+      }
+      frontier = [...level.keys()];
+    }
+    
+    // Walk back from the end along every shortest route, stopping once more than maxPaths are found
+    const paths: { names: string[]; relations: Relation[] }[] = [];
+    const walk = (name: string, names: string[], relations: Relation[]) => {
+      if (paths.length > maxPaths) {
+        return;
+      }
+      if (name === fromName) {
+        paths.push({ names: [name, ...names], relations });
+        return;
+      }
+      for (const way of reachedFrom.get(name)!) {
+        walk(way.name, [name, ...names], [way.relation, ...relations]);
+      }
+    };
+    const connected = reachedFrom.has(toName);
+    if (connected) {
+      walk(toName, [], []);
+    }
+    
+    return {
+      from: fromName,
+      to: toName,
+      connected,
+      length: connected ? length : null,
+      paths: paths.slice(0, maxPaths).map(({ names, relations }) => ({
+        entities: names.map(name => ({ name, entityType: index.entity(name)!.entityType })),
+        relations,
+        description: names.slice(1).reduce((text, name, i) => relations[i].from === names[i]
+          ? `${text} → ${relations[i].relationType} → ${name}`
+          : `${text} ← ${relations[i].relationType} ← ${name}`, names[0])
+      })),
+      truncated: paths.length > maxPaths
+    };
+  }
+
+  // Get summary of course including lectures, assignments, exams, textbooks
+  async getCourseOverview(courseName: string): Promise<any> {
+    const index = await this.loadIndex();
+    
+    // Find the course
+    const course = index.entity(courseName, 'course');
+    if (!course) {
+      throw new Error(`Course '${courseName}' not found`);
+    }
+    
+    // Find term this course belongs to
+    const term: Entity | undefined = index.targets(courseName, 'part_of', 'term')[0];
+    
+    // Find professor who teaches this course
+    const professor: Entity | undefined = index.targets(courseName, 'taught_by', 'professor')[0];
+    
+    // Find lectures for this course
+    const lectures = index.sources(courseName, 'part_of', 'lecture');
+    
+    // Sort lectures by date if available
+    lectures.sort(compareByDateAttribute('date'));
+    
+    // Find assignments for this course
+    const assignments = index.sources(courseName, 'assigned_in', 'assignment');
+    
+    // Sort assignments by due date if available
+    assignments.sort(compareByDateAttribute('due'));
+    
+    // Find exams for this course
+    const exams = index.targets(courseName, 'scheduled_for', 'exam');
+    
+    // Sort exams by date if available
+    exams.sort(compareByDateAttribute('date'));
+    
+    // Find concepts covered in this course
+    const concepts = index.targets(courseName, 'covers', 'concept');
+    
+    // Find resources for this course (textbooks, articles, etc.)
+    const resources = index.sources(courseName, 'helps_with', 'resource');
+    
+    // Find notes for this course
+    const notes = index.sources(courseName, 'created_for', 'note');
+    
+    // Extract course info from observations
+    const courseCode = getAttributeText(course, 'code') || 'N/A';
+    const courseLocation = getAttributeText(course, 'location') || 'N/A';
+    const courseSchedule = getAttributeText(course, 'schedule') || 'N/A';
+    const courseStatus = getAttributeText(course, 'status') || 'N/A';
+    
+    return {
+      course,
+      term,
+      professor,
+      info: {
+        code: courseCode,
+        location: courseLocation,
+        schedule: courseSchedule,
+        status: courseStatus
+      },
+      summary: {
+        lectureCount: lectures.length,
+        assignmentCount: assignments.length,
+        examCount: exams.length,
+        conceptCount: concepts.length,
+        resourceCount: resources.length,
+        noteCount: notes.length
+      },
+      lectures,
+      assignments,
+      exams,
+      concepts,
+      resources,
+      notes
+    };
+  }
+
+  // Returns assignments and exams with approaching due dates
+  async getUpcomingDeadlines(termName?: string, courseName?: string, daysAhead: number = 14): Promise<any> {
+    const index = await this.loadIndex();
+    const now = new Date();
+    const today = studentToday(now);
+    const endDate = addDays(today, daysAhead);
+    const warnings: string[] = [];
+    
+    // Filter for specific term if provided
+    let relevantCourses: Entity[] = [];
+    if (termName) {
+      // Find the specific term
+      const term = index.entity(termName, 'term');
+      if (!term) {
+        throw new Error(`Term '${termName}' not found`);
+      }
+      
+      // Find courses in this term
+      relevantCourses = index.sources(termName, 'part_of', 'course');
+    } else {
+      // Get all courses if no term specified
+      relevantCourses = index.ofType('course');
+    }
+    
+    // Filter for specific course if provided
+    if (courseName) {
+      relevantCourses = relevantCourses.filter(c => c.name === courseName);
+      if (relevantCourses.length === 0) {
+        throw new Error(`Course '${courseName}' not found`);
+      }
+    }
+    
+    // Find all assignments and exams for these courses
+    const deadlines: { entity: Entity; dueDate: string; dueAt: string; course: Entity; daysRemaining: number }[] = [];
+    
+    for (const course of relevantCourses) {
+      // Find assignments for this course
+      for (const relation of index.incoming(course.name, 'assigned_in')) {
+        const assignment = index.entity(relation.from, 'assignment');
+        if (assignment) {
+          // Check due date
+          const dueDate = getAttributeDateTime(assignment, 'due', warnings);
+          if (dueDate) {
+            // Check if it's in our date range
+            const deadline = describeDeadline(dueDate, now);
+            if (!deadline.isOverdue && dueDate.date <= endDate) {
+              deadlines.push({
+                entity: assignment,
+                dueDate: formatCalendarDateTime(dueDate),
+                dueAt: deadline.dueAt,
+                course,
+                daysRemaining: deadline.daysRemaining
+              });
+            }
+          }
+        }
+      }
+      
+      // Find exams for this course
+      for (const relation of index.outgoing(course.name, 'scheduled_for')) {
+        const exam = index.entity(relation.to, 'exam');
+        if (exam) {
+          // Check exam date
+          const examDate = getAttributeDateTime(exam, 'date', warnings);
+          if (examDate) {
+            // Check if it's in our date range
+            const deadline = describeDeadline(examDate, now);
+            if (!deadline.isOverdue && examDate.date <= endDate) {
+              deadlines.push({
+                entity: exam,
+                dueDate: formatCalendarDateTime(examDate),
+                dueAt: deadline.dueAt,
+                course,
+                daysRemaining: deadline.daysRemaining
+              });
+            }
+          }
+        }
+      }
+    }
+    
+    // Sort by due date
+    deadlines.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+    
+    return {
+      deadlines,
+      startDate: today,
+      endDate,
+      timeZone: STUDENT_TIMEZONE,
+      courseFilter: courseName,
+      termFilter: termName,
+      count: deadlines.length,
+      warnings
+    };
+  }
+
+  // Get detailed information about assignment status, including progress, related concepts, and resources
+  async getAssignmentStatus(assignmentName: string): Promise<any> {
+    const index = await this.loadIndex();
+    
+    // Find the assignment
+    const assignment = index.entity(assignmentName, 'assignment');
+    if (!assignment) {
+      throw new Error(`Assignment '${assignmentName}' not found`);
+    }
+    
+    // Find the course this assignment belongs to
+    const course: Entity | undefined = index.targets(assignmentName, 'assigned_in', 'course')[0];
+    
+    // Get status using the relation-based approach
+    const status = await this.getEntityStatus(assignmentName) || 'not_started';
+    // Get priority using the relation-based approach
+    const priority = await this.getEntityPriority(assignmentName);
+    
+    const warnings: string[] = [];
+    const dueDateTime = getAttributeDateTime(assignment, 'due', warnings);
+    const dueDate = dueDateTime ? formatCalendarDateTime(dueDateTime) : getAttributeText(assignment, 'due');
+    const pointsWorth = getAttributeText(assignment, 'points');
+    const instructions = getAttributeText(assignment, 'instructions');
+    
+    // Calculate time remaining if due date exists
+    let timeRemaining: number | null = null;
+    let daysRemaining: number | null = null;
+    let isOverdue = false;
+    
+    if (dueDateTime) {
+      ({ timeRemaining, daysRemaining, isOverdue } = describeDeadline(dueDateTime));
+    }
+    
+    // Find concepts related to this assignment
+    const concepts = index.targets(assignmentName, 'covers', 'concept');
+    
+    // Find resources that might help with this assignment
+    const resources: Entity[] = [];
+    
+    // Direct resources for the assignment
+    for (const relation of index.incoming(assignmentName, 'helps_with')) {
+      const resource = index.entity(relation.from, 'resource');
+      if (resource) {
+        resources.push(resource);
+      }
+    }
+    
+    // Resources for concepts related to the assignment
+    for (const concept of concepts) {
+      for (const relation of index.incoming(concept.name, 'helps_with')) {
+        const resource = index.entity(relation.from, 'resource');
+        if (resource && !resources.some(r => r.name === resource.name)) {
+          resources.push(resource);
+        }
+      }
+    }
+    
+    // Find notes related to this assignment
+    const notes = index.sources(assignmentName, 'created_for', 'note');
+    
+    // Add notes related to concepts covered by the assignment
+    for (const concept of concepts) {
+      for (const relation of index.incoming(concept.name, 'references')) {
+        const note = index.entity(relation.from, 'note');
+        if (note && !notes.some(n => n.name === note.name)) {
+          notes.push(note);
+        }
+      }
+    }
+    
+    return {
+      assignment,
+      course,
+      info: {
+        status,
+        dueDate,
+        pointsWorth,
+        score: parseScore(assignment),
+        instructions,
+        timeRemaining,
+        daysRemaining,
+        isOverdue,
+        timeZone: STUDENT_TIMEZONE
+      },
+      concepts,
+      resources,
+      notes,
+      warnings
+    };
+  }
+
+  // Get exam preparation resources, related concepts, and study plan
+  async getExamPrep(examName: string): Promise<any> {
+    const index = await this.loadIndex();
+    
+    // Find the exam
+    const exam = index.entity(examName, 'exam');
+    if (!exam) {
+      throw new Error(`Exam '${examName}' not found`);
+    }
+    
+    // Find the course this exam is for
+    const course: Entity | undefined = index.sources(examName, 'scheduled_for', 'course')[0];
+    
+    // Get exam info from attributes
+    const warnings: string[] = [];
+    const examDateTime = getAttributeDateTime(exam, 'date', warnings);
+    const examDate = examDateTime ? formatCalendarDateTime(examDateTime) : getAttributeText(exam, 'date');
+    const examLocation = getAttributeText(exam, 'location');
+    const examFormat = getAttributeText(exam, 'format');
+    const examDuration = getAttributeText(exam, 'duration');
+    
+    // Calculate time remaining if exam date exists
+    let timeRemaining: number | null = null;
+    let daysRemaining: number | null = null;
+    
+    if (examDateTime) {
+      ({ timeRemaining, daysRemaining } = describeDeadline(examDateTime));
+    }
+    
+    // Find concepts covered in the exam
+    const concepts = index.targets(examName, 'covers', 'concept');
+    
+    // If no concepts directly related to exam, get concepts from the course
+    if (concepts.length === 0 && course) {
+      for (const relation of index.outgoing(course.name, 'covers')) {
+        const concept = index.entity(relation.to, 'concept');
+        if (concept) {
+          concepts.push(concept);
+        }
+      }
+    }
+    
+    // Find resources helpful for the exam
+    const resources: Entity[] = [];
+    
+    // Direct resources for the exam
+    for (const relation of index.incoming(examName, 'helps_with')) {
+      const resource = index.entity(relation.from, 'resource');
+      if (resource) {
+        resources.push(resource);
+      }
+    }
+    
+    // Resources for concepts covered by the exam
+    for (const concept of concepts) {
+      for (const relation of index.incoming(concept.name, 'helps_with')) {
+        const resource = index.entity(relation.from, 'resource');
+        if (resource && !resources.some(r => r.name === resource.name)) {
+          resources.push(resource);
+        }
+      }
+    }
+    
+    // Resources for the course
+    if (course) {
+      for (const relation of index.incoming(course.name, 'helps_with')) {
+        const resource = index.entity(relation.from, 'resource');
+        if (resource && !resources.some(r => r.name === resource.name)) {
+          resources.push(resource);
+        }
+      }
+    }
+    
+    // Find notes related to the exam
+    const notes: Entity[] = [];
+    
+    // Direct notes for the exam
+    for (const relation of index.incoming(examName, 'created_for')) {
+      const note = index.entity(relation.from, 'note');
+      if (note) {
+        notes.push(note);
+      }
+    }
+    
+    // Notes for concepts covered in the exam
+    for (const concept of concepts) {
+      for (const relation of index.incoming(concept.name, 'references')) {
+        const note = index.entity(relation.from, 'note');
+        if (note && !notes.some(n => n.name === note.name)) {
+          notes.push(note);
+        }
+      }
+    }
+    
+    // Find previous exams for the course
+    const previousExams: Entity[] = [];
+    if (course) {
+      for (const relation of index.outgoing(course.name, 'scheduled_for')) {
+        if (relation.to !== examName) {
+          const prevExam = index.entity(relation.to, 'exam');
+          if (prevExam) {
+            const prevExamDate = getAttributeDate(prevExam, 'date');
+            if (prevExamDate && prevExamDate < new Date()) {
+              previousExams.push(prevExam);
+            }
+          }
+        }
+      }
+    }
+    
+    // Find study sessions scheduled for this exam
+    // Note: We no longer use studySession entities, this section is removed
+    const studySessions: Entity[] = [];
+    
+    // Get concepts covered in this exam
+    const conceptsCovered: Entity[] = [];
+    
+    // Find practice questions for the exam and its concepts, and those answered poorly so far
+    const practiceQuestions = this.findQuestions(index, concepts.map(c => c.name), [examName]);
+    const weakQuestions = practiceQuestions.filter(isWeakQuestion);
+    
+    return {
+      exam,
+      course,
+      info: {
+        examDate,
+        examLocation,
+        examFormat,
+        examDuration,
+        score: parseScore(exam),
+        timeRemaining,
+        daysRemaining,
+        timeZone: STUDENT_TIMEZONE
+      },
+      concepts,
+      resources,
+      notes,
+      previousExams,
+      studySessions,
+      practiceQuestions,
+      weakQuestions,
+      summary: {
+        conceptCount: concepts.length,
+        resourceCount: resources.length,
+        noteCount: notes.length,
+        previousExamCount: previousExams.length,
+        studySessionCount: studySessions.length,
+        practiceQuestionCount: practiceQuestions.length,
+        weakQuestionCount: weakQuestions.length
+      },
+      warnings
+    };
+  }
+
+  // Find concepts related to a given concept and how they're connected
+  async findRelatedConcepts(conceptName: string, depth: number = 1): Promise<any> {
+    const index = await this.loadIndex();
+    
+    // Find the concept
+    const concept = index.entity(conceptName, 'concept');
+    if (!concept) {
+      throw new Error(`Concept '${conceptName}' not found`);
+    }
+    
+    // Initialize results
+    const relatedConcepts: {
+      concept: Entity;
+      relationPath: string[];
+      depth: number;
+      courses: Entity[];
+      resources: Entity[];
+    }[] = [];
+    
+    // Set to track processed concepts to avoid duplicates
+    const processedConcepts = new Set<string>();
+    processedConcepts.add(conceptName);
+    
+    // Queue of concepts to process with their current depth and path
+    const queue: {
+      name: string;
+      currentDepth: number;
+      path: string[];
+    }[] = [{ name: conceptName, currentDepth: 0, path: [] }];
+    
+    // Process the queue
+    while (queue.length > 0) {
+      const { name, currentDepth, path } = queue.shift()!;
+      
+      // Skip if we've reached max depth (except for the initial concept)
+      if (currentDepth > depth && name !== conceptName) continue;
+      
+      // Find the concept entity
+      const currentConcept = index.entity(name, 'concept');
+      if (!currentConcept) continue;
+      
+      // Skip the initial concept for the results
+      if (name !== conceptName) {
+        // Find courses that cover this concept
+        const courses = index.sources(name, 'covers', 'course');
+        
+        // Find resources that help with this concept
+        const resources = index.sources(name, 'helps_with', 'resource');
+        
+        relatedConcepts.push({
+          concept: currentConcept,
+          relationPath: [...path],
+          depth: currentDepth,
+          courses,
+          resources
+        });
+      }
+      
+      // Find directly related concepts through 'related_to'
+      for (const relation of [...index.outgoing(name, 'related_to'), ...index.incoming(name, 'related_to')]) {
+        // Check bidirectional relation
+        const nextConcept = relation.from === name ? relation.to : relation.from;
+        
+        if (!processedConcepts.has(nextConcept)) {
+          processedConcepts.add(nextConcept);
+          queue.push({
+            name: nextConcept,
+            currentDepth: currentDepth + 1,
+            path: [...path, `related_to ${nextConcept}`]
+          });
+        }
+      }
+      
+      // Find prerequisites
+      for (const relation of [...index.outgoing(name, 'prerequisite_for'), ...index.incoming(name, 'prerequisite_for')]) {
+        let nextConcept: string;
+        let relationDescription: string;
+        
+        if (relation.from === name) {
+          nextConcept = relation.to;
+          relationDescription = `prerequisite_for ${nextConcept}`;
+        } else {
+          nextConcept = relation.from;
+          relationDescription = `${nextConcept} is_prerequisite_for this`;
+        }
+        
+        if (!processedConcepts.has(nextConcept)) {
+          processedConcepts.add(nextConcept);
+          queue.push({
+            name: nextConcept,
+            currentDepth: currentDepth + 1,
+            path: [...path, relationDescription]
+          });
+        }
+      }
+    }
+    
+    // Sort related concepts by depth
+    relatedConcepts.sort((a, b) => a.depth - b.depth);
+    
+    return {
+      concept,
+      relatedConcepts,
+      summary: {
+        totalRelated: relatedConcepts.length,
+        maxDepth: depth
+      }
+    };
+  }
+
+  // Track lecture notes and find related concepts and resources
+  async trackLectureNotes(courseName: string): Promise<any> {
+    const index = await this.loadIndex();
+    
+    // Find the course
+    const course = index.entity(courseName, 'course');
+    if (!course) {
+      throw new Error(`Course '${courseName}' not found`);
+    }
+    
+    // Find lectures for this course
+    const lectures = index.sources(courseName, 'part_of', 'lecture');
+    
+    // Sort lectures by date if available
+    lectures.sort(compareByDateAttribute('date'));
+    
+    // Create a structure to hold lecture data with notes and concepts
+    const lectureData: Array<{
+      lecture: Entity;
+      info: {
+        date: string | undefined;
+        topic: string | undefined;
+      };
+      notes: Entity[];
+      concepts: Entity[];
+      resources: Entity[];
+      summary: {
+        noteCount: number;
+        conceptCount: number;
+        resourceCount: number;
+      };
+    }> = [];
+    
+    for (const lecture of lectures) {
+      // Get details about the lecture
+      const lectureDate = getAttributeText(lecture, 'date');
+      const lectureTopic = getAttributeText(lecture, 'topic');
+      
+      // Find notes for this lecture
+      const notes = index.sources(lecture.name, 'created_for', 'note');
+      
+      // Find concepts covered in this lecture
+      const concepts = index.targets(lecture.name, 'covers', 'concept');
+      
+      // Get resources related to this lecture
+      const resources = index.sources(lecture.name, 'helps_with', 'resource');
+      
+      // Add resources related to concepts in this lecture
+      for (const concept of concepts) {
+        for (const relation of index.incoming(concept.name, 'helps_with')) {
+          const resource = index.entity(relation.from, 'resource');
+          if (resource && !resources.some(r => r.name === resource.name)) {
+            resources.push(resource);
+          }
+        }
+      }
+      
+      lectureData.push({
+        lecture,
+        info: {
+          date: lectureDate,
+          topic: lectureTopic
+        },
+        notes,
+        concepts,
+        resources,
+        summary: {
+          noteCount: notes.length,
+          conceptCount: concepts.length,
+          resourceCount: resources.length
+        }
+      });
+    }
+    
+    return {
+      course,
+      lectures: lectureData,
+      summary: {
+        lectureCount: lectures.length,
+        totalNotes: lectureData.reduce((sum, ld) => sum + ld.notes.length, 0),
+        totalConcepts: lectureData.reduce((sum, ld) => sum + ld.concepts.length, 0)
+      }
+    };
+  }
+
+  // Get term overview including courses, progress, and important dates
+  async getTermOverview(termName: string): Promise<any> {
+    const index = await this.loadIndex();
+    
+    // Find the term
+    const term = index.entity(termName, 'term');
+    if (!term) {
+      throw new Error(`Term '${termName}' not found`);
+    }
+    
+    // Get term info
+    const startDate = getAttributeText(term, 'startDate');
+    const endDate = getAttributeText(term, 'endDate');
+    const status = getAttributeText(term, 'status') || 'in_progress';
+    const warnings: string[] = [];
+    
+    // Find courses for this term
+    const courses = index.sources(termName, 'part_of', 'course');
+    
+    // Get detailed information for each course
+    const courseData: Array<{
+      course: Entity;
+      professor: Entity | undefined;
+      info: {
+        code: string | undefined;
+        schedule: string | undefined;
+        status: string;
+      };
+      progress: {
+        completedAssignments: number;
+        totalAssignments: number;
+        completionRate: number;
+      };
+      upcomingExam: Entity | undefined;
+      summary: {
+        assignmentCount: number;
+        examCount: number;
+      };
+    }> = [];
+    
+    for (const course of courses) {
+      // Get course info
+      const courseCode = getAttributeText(course, 'code');
+      const courseSchedule = getAttributeText(course, 'schedule');
+      const courseStatus = getAttributeText(course, 'status') || 'in_progress';
+      
+      // Find professor
+      const professor: Entity | undefined = index.targets(course.name, 'taught_by', 'professor')[0];
+      
+      // Find assignments for this course
+      const assignments = index.sources(course.name, 'assigned_in', 'assignment');
+      
+      // Count completed and total assignments
+      const completedAssignments = assignments.filter(a => 
+        getAttributeText(a, 'status') === 'completed'
+      ).length;
+      
+      // Find exams for this course
+      const exams = index.targets(course.name, 'scheduled_for', 'exam');
+      
+      // Sort exams by date
+      exams.sort(compareByDateAttribute('date'));
+      
+      // Get the next upcoming exam
+      const upcomingExam = exams.find(e => {
+        const examDate = getAttributeDate(e, 'date');
+        return examDate !== undefined && examDate > new Date();
+      });
+      
+      courseData.push({
+        course,
+        professor,
+        info: {
+          code: courseCode,
+          schedule: courseSchedule,
+          status: courseStatus
+        },
+        progress: {
+          completedAssignments,
+          totalAssignments: assignments.length,
+          completionRate: assignments.length > 0 ? 
+            Math.round((completedAssignments / assignments.length) * 100) : 0
+        },
+        upcomingExam,
+        summary: {
+          assignmentCount: assignments.length,
+          examCount: exams.length
+        }
+      });
+    }
+    
+    // Find all deadlines (assignments and exams) in this term
+    const allDeadlines: {
+      entity: Entity;
+      type: 'assignment' | 'exam';
+      course: Entity;
+      dueDate: string;
+      dueAt: string;
+      daysRemaining: number;
+    }[] = [];
+    
+    // Current time for comparisons
+    const now = new Date();
+    
+    // Process assignments
+    for (const course of courses) {
+      // Find assignments for this course
+      for (const relation of index.incoming(course.name, 'assigned_in')) {
+        const assignment = index.entity(relation.from, 'assignment');
+        if (assignment) {
+          // Check due date
+          const dueDate = getAttributeDateTime(assignment, 'due', warnings);
+          if (dueDate) {
+            // Only include future deadlines
+            const deadline = describeDeadline(dueDate, now);
+            if (!deadline.isOverdue) {
+              allDeadlines.push({
+                entity: assignment,
+                type: 'assignment',
+                course,
+                dueDate: formatCalendarDateTime(dueDate),
+                dueAt: deadline.dueAt,
+                daysRemaining: deadline.daysRemaining
+              });
+            }
+          }
+        }
+      }
+      
+      // Find exams for this course
+      for (const relation of index.outgoing(course.name, 'scheduled_for')) {
+        const exam = index.entity(relation.to, 'exam');
+        if (exam) {
+          // Check exam date
+          const examDate = getAttributeDateTime(exam, 'date', warnings);
+          if (examDate) {
+            // Only include future dates
+            const deadline = describeDeadline(examDate, now);
+            if (!deadline.isOverdue) {
+              allDeadlines.push({
+                entity: exam,
+                type: 'exam',
+                course,
+                dueDate: formatCalendarDateTime(examDate),
+                dueAt: deadline.dueAt,
+                daysRemaining: deadline.daysRemaining
+              });
+            }
+          }
+        }
+      }
+    }
+    
+    // Sort all deadlines by date
+    allDeadlines.sort((a, b) => a.dueAt.localeCompare(b.dueAt));
+    
+    return {
+      term,
+      info: {
+        startDate,
+        endDate,
+        status,
+        timeZone: STUDENT_TIMEZONE
+      },
+      courses: courseData,
+      upcomingDeadlines: allDeadlines.slice(0, 10), // Return the next 10 deadlines
+      summary: {
+        courseCount: courses.length,
+        deadlineCount: allDeadlines.length
+      },
+      warnings
+    };
+  }
+  // Record an earned/possible score on an assignment or exam, replacing any previous score
+  async recordScore(entityName: string, earned: number, possible: number, sessionId?: string): Promise<void> {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      
+      const entity = graph.entities.find(e => e.name === entityName);
+      if (!entity) {
+        throw new Error(`Entity '${entityName}' not found`);
+      }
+      
+      const before = structuredClone(entity);
+      applyScore(entity, earned, possible);
+      
+      await this.saveGraph(graph);
+      await this.logChange('recordScore', `Recorded score ${earned}/${possible} for ${entityName}`, {
+        entities: [{ name: entityName, before, after: entity }],
+        addedRelations: [],
+        removedRelations: []
+      }, sessionId);
+    });
+  }
+
+  // Compute the current weighted grade for a course from recorded scores and its grading scheme
+  async getCourseGrade(courseName: string): Promise<any> {
+    const index = await this.loadIndex();
+    
+    // Find the course
+    const course = index.entity(courseName, 'course');
+    if (!course) {
+      throw new Error(`Course '${courseName}' not found`);
+    }
+    
+    // Find the grading scheme this course is graded with
+    const gradingScheme: Entity | undefined = index.targets(courseName, 'graded_with', 'grading_scheme')[0];
+    const weights = gradingScheme ? parseGradingWeights(gradingScheme.observations) : [];
+    
+    // Find assignments and exams for this course
+    const gradableItems = [
+      ...index.sources(courseName, 'assigned_in', 'assignment'),
+      ...index.targets(courseName, 'scheduled_for', 'exam')
+    ];
+    
+    // Assign each item to a category: an explicit "Category:" observation wins, otherwise a category named in the item name
+    const categorize = (item: Entity): string | undefined => {
+      const explicitCategory = getAttributeText(item, 'category');
+      if (explicitCategory) {
+        return weights.find(w => w.category.toLowerCase() === explicitCategory.toLowerCase())?.category;
+      }
+      const lowerName = item.name.toLowerCase();
+      return weights.find(w => lowerName.includes(w.category.toLowerCase().replace(/s$/, '')))?.category;
+    };
+    
+    const items = gradableItems.map(item => ({
+      entity: item,
+      category: categorize(item),
+      score: parseScore(item)
+    }));
+    const graded = items.filter(i => i.score !== null);
+    const ungraded = items.filter(i => i.score === null);
+    
+    // Summarize each weighted category
+    const categories = weights.map(w => {
+      const categoryItems = graded.filter(i => i.category === w.category);
+      const earned = categoryItems.reduce((sum, i) => sum + i.score!.earned, 0);
+      const possible = categoryItems.reduce((sum, i) => sum + i.score!.possible, 0);
+      return {
+        category: w.category,
+        weight: w.weight,
+        earned,
+        possible,
+        percentage: possible > 0 ? (earned / possible) * 100 : null,
+        gradedCount: categoryItems.length,
+        remainingCount: ungraded.filter(i => i.category === w.category).length
+      };
+    });
+    
+    // Weighted average over categories with graded work, or plain points when there is no scheme
+    let currentPercentage: number | null = null;
+    let weightGraded = 0;
+    if (weights.length > 0) {
+      const gradedCategories = categories.filter(c => c.percentage !== null);
+      weightGraded = gradedCategories.reduce((sum, c) => sum + c.weight, 0);
+      if (weightGraded > 0) {
+        currentPercentage = gradedCategories.reduce((sum, c) => sum + c.weight * c.percentage!, 0) / weightGraded;
+      }
+    } else {
+      const earned = graded.reduce((sum, i) => sum + i.score!.earned, 0);
+      const possible = graded.reduce((sum, i) => sum + i.score!.possible, 0);
+      if (possible > 0) {
+        currentPercentage = (earned / possible) * 100;
+      }
+    }
+    
+    const letterGrade = currentPercentage !== null ? percentageToLetterGrade(currentPercentage) : null;
+    
+    return {
+      course,
+      gradingScheme,
+      weights,
+      categories,
+      graded,
+      ungraded,
+      uncategorized: weights.length > 0 ? graded.filter(i => !i.category) : [],
+      currentPercentage: currentPercentage !== null ? Math.round(currentPercentage * 100) / 100 : null,
+      letterGrade: letterGrade?.letter || null,
+      gradePoints: letterGrade?.points ?? null,
+      summary: {
+        gradedCount: graded.length,
+        ungradedCount: ungraded.length,
+        totalWeight: weights.reduce((sum, w) => sum + w.weight, 0),
+        weightGraded
+      }
+    };
+  }
+
+  // Project the final course grade and the scores needed on remaining work to reach a target grade
+  async getGradeProjection(courseName: string, targetGrade: string | number): Promise<any> {
+    const target = parseTargetGrade(targetGrade);
+    const courseGrade = await this.getCourseGrade(courseName);
+    const round = (value: number) => Math.round(value * 100) / 100;
+    
+    // Points possible on remaining work come from the points attribute, assuming 100 when missing
+    const remainingItems = courseGrade.ungraded
+      .filter((item: { category?: string }) => courseGrade.weights.length === 0 || item.category)
+      .map((item: { entity: Entity; category?: string }) => {
+        const points = Number(getAttribute(item.entity, 'points'));
+        return {
+          entity: item.entity,
+          category: item.category,
+          possible: points > 0 ? points : 100,
+          assumedPossible: !(points > 0)
+        };
+      });
+    
+    // The final percentage is linear in the fraction p scored on remaining work: final = 100 * (base + slope * p).
+    // Each remaining item contributes coefficient * p, where coefficient is its share of the final grade.
+    let base = 0;
+    const coefficients = new Map<Entity, number>();
+    // Categories with no graded or remaining items yet are assumed to be scored like the remaining work
+    const emptyCategories: string[] = [];
+    let emptyCategoryShare = 0;
+    if (courseGrade.weights.length > 0) {
+      const totalWeight = courseGrade.summary.totalWeight;
+      for (const category of courseGrade.categories) {
+        const categoryItems = remainingItems.filter((item: { category?: string }) => item.category === category.category);
+        const remainingPossible = categoryItems.reduce((sum: number, item: { possible: number }) => sum + item.possible, 0);
+        const totalPossible = category.possible + remainingPossible;
+        const share = category.weight / totalWeight;
+        if (totalPossible === 0) {
+          emptyCategories.push(category.category);
+          emptyCategoryShare += share;
+          continue;
+        }
+        base += share * category.earned / totalPossible;
+        for (const item of categoryItems) {
+          coefficients.set(item.entity, share * item.possible / totalPossible);
+        }
+      }
+    } else {
+      const earned = courseGrade.graded.reduce((sum: number, item: { score: { earned: number } }) => sum + item.score.earned, 0);
+      const possible = courseGrade.graded.reduce((sum: number, item: { score: { possible: number } }) => sum + item.score.possible, 0);
+      const totalPossible = possible + remainingItems.reduce((sum: number, item: { possible: number }) => sum + item.possible, 0);
+      if (totalPossible > 0) {
+        base = earned / totalPossible;
+        for (const item of remainingItems) {
+          coefficients.set(item.entity, item.possible / totalPossible);
+        }
+      }
+    }
+    const slope = Array.from(coefficients.values()).reduce((sum, c) => sum + c, emptyCategoryShare);
+    
+    const worstCase = round(base * 100);
+    const bestCase = round((base + slope) * 100);
+    const targetFraction = target.percentage / 100;
+    
+    // Uniform fraction needed on every remaining item to reach the target
+    const requiredFraction = slope > 0 ? Math.max(0, (targetFraction - base) / slope) : null;
+    
+    const remaining = remainingItems.map((item: { entity: Entity; category?: string; possible: number; assumedPossible: boolean }) => {
+      const coefficient = coefficients.get(item.entity) || 0;
+      // Minimum on this item alone if every other remaining item is scored perfectly
+      const minimumFractionIfOthersPerfect = coefficient > 0
+        ? Math.max(0, 1 - (base + slope - targetFraction) / coefficient)
+        : null;
+      return {
+        entity: item.entity,
+        category: item.category,
+        possible: item.possible,
+        assumedPossible: item.assumedPossible,
+        requiredScore: requiredFraction !== null ? round(requiredFraction * item.possible) : null,
+        requiredPercentage: requiredFraction !== null ? round(requiredFraction * 100) : null,
+        minimumScoreIfOthersPerfect: minimumFractionIfOthersPerfect !== null ? round(minimumFractionIfOthersPerfect * item.possible) : null
+      };
+    });
+    
+    return {
+      course: courseGrade.course,
+      target,
+      currentPercentage: courseGrade.currentPercentage,
+      currentLetterGrade: courseGrade.letterGrade,
+      bestCase: {
+        percentage: bestCase,
+        letterGrade: percentageToLetterGrade(bestCase).letter
+      },
+      worstCase: {
+        percentage: worstCase,
+        letterGrade: percentageToLetterGrade(worstCase).letter
+      },
+      requiredPercentage: requiredFraction !== null ? round(requiredFraction * 100) : null,
+      achievable: bestCase >= target.percentage,
+      alreadySecured: worstCase >= target.percentage,
+      remaining,
+      emptyCategories,
+      uncategorized: courseGrade.weights.length > 0
+        ? courseGrade.ungraded.filter((item: { category?: string }) => !item.category).map((item: { entity: Entity }) => item.entity)
+        : [],
+      summary: {
+        remainingCount: remaining.length,
+        gradedCount: courseGrade.summary.gradedCount
+      }
+    };
+  }
+
+  // Compute term GPA from the current grade of every course in the term, weighted by course credits
+  async getTermGPA(termName: string): Promise<any> {
+    const termOverview = await this.getTermOverview(termName);
+    
+    const courseGrades: {
+      course: Entity;
+      credits: number;
+      currentPercentage: number | null;
+      letterGrade: string | null;
+      gradePoints: number | null;
+    }[] = [];
+    
+    for (const courseData of termOverview.courses) {
+      const courseGrade = await this.getCourseGrade(courseData.course.name);
+      const credits = Number(getAttribute(courseData.course, 'credits'));
+      courseGrades.push({
+        course: courseData.course,
+        // Courses without a credits attribute count as one credit
+        credits: credits > 0 ? credits : 1,
+        currentPercentage: courseGrade.currentPercentage,
+        letterGrade: courseGrade.letterGrade,
+        gradePoints: courseGrade.gradePoints
+      });
+    }
+    
+    // Only courses with graded work contribute to the GPA
+    const gradedCourses = courseGrades.filter(c => c.gradePoints !== null);
+    const totalCredits = gradedCourses.reduce((sum, c) => sum + c.credits, 0);
+    const gpa = totalCredits > 0
+      ? Math.round((gradedCourses.reduce((sum, c) => sum + c.gradePoints! * c.credits, 0) / totalCredits) * 100) / 100
+      : null;
+    
+    return {
+      term: termOverview.term,
+      gpa,
+      courses: courseGrades,
+      summary: {
+        courseCount: courseGrades.length,
+        gradedCourseCount: gradedCourses.length,
+        totalCredits
+      }
+    };
+  }
+  // Record a review outcome (again/hard/good/easy) for a concept and schedule its next review
+  async recordReview(conceptName: string, outcome: string, reviewDate: Date = new Date(), sessionId?: string): Promise<any> {
+    return this.mutateGraph(async () => {
+      const graph = await this.loadGraph();
+      
+      // Find the concept
+      const concept = graph.entities.find(e => e.name === conceptName && e.entityType === 'concept');
+      if (!concept) {
+        throw new Error(`Concept '${conceptName}' not found`);
+      }
+      
+      const before = structuredClone(concept);
+      const { previousState, reviewState } = applyReview(concept, outcome, reviewDate);
+      
+      await this.saveGraph(graph);
+      await this.logChange('recordReview', `Reviewed ${conceptName}: ${outcome}`, {
+        entities: [{ name: conceptName, before, after: concept }],
+        addedRelations: [],
+        removedRelations: []
+      }, sessionId);
+      
+      return {
+        concept,
+        outcome,
+        previousState,
+        reviewState
+      };
+    });
+  }
+
+  // Find concepts whose next review date is on or before the given date (YYYY-MM-DD, default today)
+  async getDueReviews(date: string = studentToday(), limit?: number): Promise<any> {
+    const index = await this.loadIndex();
+    const today = date;
+    
+    const due: {
+      concept: Entity;
+      reviewState: ReviewState;
+      daysOverdue: number;
+    }[] = [];
+    const unreviewed: Entity[] = [];
+    
+    for (const concept of index.ofType('concept')) {
+      const reviewState = parseReviewState(concept);
+      if (!reviewState.nextReview) {
+        unreviewed.push(concept);
+      } else if (reviewState.nextReview <= today) {
+        const daysOverdue = calendarDaysBetween(reviewState.nextReview, today);
+        due.push({
+          concept,
+          reviewState,
+          daysOverdue
+        });
+      }
+    }
+    
+    // Most overdue first, then hardest (lowest ease) first
+    due.sort((a, b) => b.daysOverdue - a.daysOverdue || a.reviewState.ease - b.reviewState.ease);
+    
+    return {
+      date: today,
+      due: limit ? due.slice(0, limit) : due,
+      unreviewed,
+      summary: {
+        dueCount: due.length,
+        unreviewedCount: unreviewed.length
+      }
+    };
+  }
+  // Find questions linked to any of the given concepts (covers/references) or part of any of the given courses/exams
+  private findQuestions(index: GraphIndex, conceptNames: string[], containerNames: string[]): Entity[] {
+    const questions = new Map<string, Entity>();
+    const candidates = [
+      ...conceptNames.flatMap(name => [...index.sources(name, 'covers', 'question'), ...index.sources(name, 'references', 'question')]),
+      ...containerNames.flatMap(name => index.sources(name, 'part_of', 'question'))
+    ];
+    for (const question of candidates) {
+      questions.set(question.name, question);
+    }
+    return [...questions.values()];
+  }
+
+  // Find the concepts a question covers or references
+  private findQuestionConcepts(index: GraphIndex, questionName: string): Entity[] {
+    const concepts = new Map<string, Entity>();
+    for (const concept of [...index.targets(questionName, 'covers', 'concept'), ...index.targets(questionName, 'references', 'concept')]) {
+      concepts.set(concept.name, concept);
+    }
+    return [...concepts.values()];
+  }
+
+  // Draw a randomized set of questions for a course, an exam, or a set of concepts
+  async drawQuiz(scope: { courseName?: string; examName?: string; conceptNames?: string[] }, count: number = 5): Promise<any> {
+    const index = await this.loadIndex();
+    
+    const conceptNames: string[] = [...(scope.conceptNames || [])];
+    const containerNames: string[] = [];
+    
+    if (scope.courseName) {
+      const course = index.entity(scope.courseName, 'course');
+      if (!course) {
+        throw new Error(`Course '${scope.courseName}' not found`);
+      }
+      containerNames.push(course.name);
+      // Concepts covered by the course, and questions attached to its exams
+      for (const relation of index.outgoing(course.name, 'covers')) {
+        conceptNames.push(relation.to);
+      }
+      for (const relation of index.outgoing(course.name, 'scheduled_for')) {
+        containerNames.push(relation.to);
+      }
+    }
+    
+    if (scope.examName) {
+      const exam = index.entity(scope.examName, 'exam');
+      if (!exam) {
+        throw new Error(`Exam '${scope.examName}' not found`);
+      }
+      containerNames.push(exam.name);
+      for (const relation of index.outgoing(exam.name, 'covers')) {
+        conceptNames.push(relation.to);
+      }
+    }
+    
+    if (conceptNames.length === 0 && containerNames.length === 0) {
+      throw new Error('A quiz needs a courseName, examName, or conceptNames');
+    }
+    
+    const questions = this.findQuestions(index, conceptNames, containerNames);
+    const selected = shuffle(questions).slice(0, count);
+    
+    return {
+      questions: selected.map(question => ({
+        name: question.name,
+        // Answers are withheld so the quiz can be taken before checking them
+        question: getAttributeText(question, 'question') || question.name,
+        concepts: this.findQuestionConcepts(index, question.name).map(c => c.name),
+        stats: parseQuestionStats(question)
+      })),
+      summary: {
+        drawn: selected.length,
+        available: questions.length
+      }
+    };
+  }
+
+  // Record quiz answers, updating each question's results and the mastery of the concepts it covers
+  async recordQuizAnswers(answers: { questionName: string; answer?: string; correct?: boolean }[], sessionId?: string): Promise<any> {
+    return this.mutateGraph(async () => {
+      const index = new GraphIndex(await this.loadGraph());
+      const { graph } = index;
+      const before = structuredClone(graph);
+      const today = studentToday();
+      
+      // Validate all questions before changing anything
+      for (const item of answers) {
+        if (!index.entity(item.questionName, 'question')) {
+          throw new Error(`Question '${item.questionName}' not found`);
+        }
+      }
+      
+      const results = [];
+      const affectedConcepts = new Map<string, Entity>();
+      
+      for (const item of answers) {
+        const question = index.entity(item.questionName, 'question')!;
+        const expectedAnswer = getAttributeText(question, 'answer');
+        
+        // Use the caller's judgement when given, otherwise compare against the stored answer
+        let correct = item.correct;
+        if (correct === undefined) {
+          if (item.answer === undefined || expectedAnswer === undefined) {
+            throw new Error(`Cannot grade '${item.questionName}': provide 'correct', or an 'answer' for a question with an answer attribute`);
+          }
+          correct = normalizeText(item.answer) === normalizeText(expectedAnswer);
+        }
+        
+        // Lift legacy result observations so they are not left behind next to the attributes
+        liftObservationsToAttributes(question);
+        const stats = parseQuestionStats(question);
+        const attempts = stats.attempts + 1;
+        const correctCount = stats.correct + (correct ? 1 : 0);
+        
+        applyAttributeUpdate(question, {
+          attempts,
+          correctAnswers: correctCount,
+          lastResult: correct ? 'correct' : 'incorrect',
+          lastAnswered: today
+        });
+        
+        for (const concept of this.findQuestionConcepts(index, question.name)) {
+          affectedConcepts.set(concept.name, concept);
+        }
+        
+        results.push({
+          questionName: question.name,
+          correct,
+          expectedAnswer,
+          attempts,
+          accuracy: correctCount / attempts
+        });
+      }
+      
+      // Roll question results up into each affected concept's mastery
+      const conceptMastery = [];
+      for (const concept of affectedConcepts.values()) {
+        const conceptQuestions = this.findQuestions(index, [concept.name], []);
+        const attempts = conceptQuestions.reduce((sum, q) => sum + parseQuestionStats(q).attempts, 0);
+        const correct = conceptQuestions.reduce((sum, q) => sum + parseQuestionStats(q).correct, 0);
+        const mastery = attempts > 0 ? Math.round((correct / attempts) * 100) : 0;
+        
+        liftObservationsToAttributes(concept);
+        applyAttributeUpdate(concept, { mastery });
+        conceptMastery.push({
+          conceptName: concept.name,
+          mastery,
+          correct,
+          attempts
+        });
+      }
+      
+      await this.saveGraph(graph);
+      await this.logChange('recordQuizAnswers', `Recorded ${results.length} quiz answers`, diffGraphs(before, graph), sessionId);
+      
+      return {
+        results,
+        conceptMastery,
+        summary: {
+          answered: results.length,
+          correct: results.filter(r => r.correct).length
+        }
+      };
+    });
+  }
+  // Import lectures, exams, and assignments for a course from an iCalendar (.ics) file, updating entries imported before
+  async importCalendar(filePath: string, courseName: string, defaultType: EntityType = 'lecture', sessionId?: string): Promise<any> {
+    return this.mutateGraph(async () => {
+      if (!['lecture', 'exam', 'assignment'].includes(defaultType)) {
+        throw new Error(`Invalid default type: ${defaultType}. Must be 'lecture', 'exam', or 'assignment'`);
+      }
+      
+      const resolvedPath = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+      const events = parseICalendar(await fs.readFile(resolvedPath, 'utf-8'));
+      
+      const graph = await this.loadGraph();
+      const before = structuredClone(graph);
+      
+      // Find the course
+      const course = graph.entities.find(e => e.name === courseName && e.entityType === 'course');
+      if (!course) {
+        throw new Error(`Course '${courseName}' not found`);
+      }
+      
+      const created: { name: string; entityType: EntityType; date: string }[] = [];
+      const updated: { name: string; entityType: EntityType; date: string; classifiedAs?: EntityType }[] = [];
+      const skipped: { summary: string; reason: string }[] = [];
+      const links: Relation[] = [];
+      
+      for (const event of events) {
+        const occurrences = expandCalendarEvent(event);
+        if (occurrences.length === 0) {
+          skipped.push({ summary: event.summary, reason: 'No start or due date' });
+          continue;
+        }
+        
+        const entityType = classifyCalendarEvent(event, defaultType);
+        
+        // Exam duration from the event's start and end times
+        let durationMinutes: number | undefined;
+        if (event.start?.time && event.end?.time) {
+          const toMinutes = (value: CalendarDateTime) =>
+            new Date(`${value.date}T${value.time}:00Z`).getTime() / (1000 * 60);
+          durationMinutes = toMinutes(event.end) - toMinutes(event.start);
+        }
+        
+        for (const occurrence of occurrences) {
+          // Assignments are timed by their due date, everything else by its start
+          const whenFor = (type: EntityType): string => {
+            const anchor = (type === 'assignment' && event.due) || event.start || event.due!;
+            return formatCalendarDateTime({ date: occurrence.date, time: anchor.time });
+          };
+          
+          // Attributes owned by the importer, keyed for the given entity type and replaced on re-import
+          const importedAttributes = (type: EntityType): Record<string, AttributeValue> => {
+            const attributes: Record<string, AttributeValue> = {
+              uid: occurrence.uid,
+              [type === 'assignment' ? 'due' : 'date']: whenFor(type)
+            };
+            if (event.location) {
+              attributes.location = event.location;
+            }
+            if (type === 'exam' && durationMinutes && durationMinutes > 0) {
+              attributes.duration = `${durationMinutes} minutes`;
+            }
+            if (type === 'lecture' && event.summary) {
+              attributes.topic = event.summary;
+            }
+            const schema = ENTITY_ATTRIBUTE_SCHEMA[type] || {};
+            return Object.fromEntries(Object.entries(attributes).filter(([key]) => schema[key]));
+          };
+          
+          // Re-imports update the entity created for the same UID. Its stored type wins over the event's
+          // classification, so a type corrected by hand keeps its attribute keys and course link
+          let entity = graph.entities.find(e => e.attributes?.uid === occurrence.uid);
+          if (entity) {
+            entity.attributes = { ...entity.attributes, ...importedAttributes(entity.entityType) };
+            updated.push({
+              name: entity.name,
+              entityType: entity.entityType,
+              date: whenFor(entity.entityType),
+              ...(entity.entityType !== entityType ? { classifiedAs: entityType } : {})
+            });
+          } else {
+            const baseName = event.summary || `${courseName} ${entityType}`;
+            const name = [
+              occurrences.length > 1 ? `${baseName} (${occurrence.date})` : baseName,
+              `${baseName} (${occurrence.date})`
+            ].find(candidate => !graph.entities.some(e => e.name === candidate));
+            if (!name) {
+              skipped.push({ summary: event.summary, reason: `An entity named '${baseName} (${occurrence.date})' already exists` });
+              continue;
+            }
+            
+            entity = {
+              name,
+              entityType,
+              observations: event.description ? [event.description] : [],
+              attributes: importedAttributes(entityType)
+            };
+            graph.entities.push(entity);
+            created.push({ name, entityType, date: whenFor(entityType) });
+          }
+          
+          // Link the entity to the course the same way the overview methods expect
+          links.push(entity.entityType === 'assignment'
+            ? { from: entity.name, to: courseName, relationType: 'assigned_in' }
+            : entity.entityType === 'exam'
+              ? { from: courseName, to: entity.name, relationType: 'scheduled_for' }
+              : { from: entity.name, to: courseName, relationType: 'part_of' });
+        }
+      }
+      
+      // Course links go through the relation schema like any other relation; existing links are left alone
+      const unlinked: { name: string; reason: string }[] = [];
+      for (const { item, status, reason } of planRelationCreation(graph, links)) {
+        if (status === 'created') {
+          graph.relations.push(item);
+        } else if (status === 'error') {
+          unlinked.push({ name: item.from === courseName ? item.to : item.from, reason: reason! });
+        }
+      }
+      
+      await this.saveGraph(graph);
+      await this.logChange('importCalendar', `Imported ${created.length} new and ${updated.length} updated calendar entries into ${courseName}`, diffGraphs(before, graph), sessionId);
+      
+      return {
+        course,
+        filePath: resolvedPath,
+        created,
+        updated,
+        skipped,
+        unlinked,
+        summary: {
+          eventCount: events.length,
+          createdCount: created.length,
+          updatedCount: updated.length,
+          skippedCount: skipped.length,
+          unlinkedCount: unlinked.length
+        }
+      };
+    });
+  }
+  // Export assignment due dates and exams for a term or course to an iCalendar (.ics) file
+  async exportCalendar(filePath: string, options: { termName?: string; courseName?: string; reminderMinutes?: number[] } = {}): Promise<any> {
+    const index = await this.loadIndex();
+    const { termName, courseName, reminderMinutes = [1440] } = options;
+    
+    // Find the courses to export
+    let courses: Entity[];
+    if (courseName) {
+      const course = index.entity(courseName, 'course');
+      if (!course) {
+        throw new Error(`Course '${courseName}' not found`);
+      }
+      courses = [course];
+    } else if (termName) {
+      if (!index.entity(termName, 'term')) {
+        throw new Error(`Term '${termName}' not found`);
+      }
+      courses = index.sources(termName, 'part_of', 'course');
+    } else {
+      throw new Error('A calendar export needs a termName or courseName');
+    }
+    
+    // Collect dated assignments and exams for each course
+    const items: { entity: Entity; course: Entity; when: CalendarDateTime; uid: string }[] = [];
+    const skipped: { name: string; reason: string }[] = [];
+    const seen = new Set<string>();
+    for (const course of courses) {
+      const dated = [
+        ...index.sources(course.name, 'assigned_in', 'assignment').map(entity => ({ entity, key: 'due' })),
+        ...index.targets(course.name, 'scheduled_for', 'exam').map(entity => ({ entity, key: 'date' }))
+      ];
+      for (const { entity, key } of dated) {
+        // UIDs derived from entity names let calendar apps update events on re-export.
+        // An entity reached through duplicate relations or several courses is written once.
+        const uid = `${createHash('sha1').update(entity.name).digest('hex')}@contextmanager-student`;
+        if (seen.has(uid)) {
+          continue;
+        }
+        seen.add(uid);
+        const dateText = getAttributeText(entity, key);
+        const when = dateText ? parseDateTimeValue(dateText) : undefined;
+        if (when) {
+          items.push({ entity, course, when, uid });
+        } else {
+          skipped.push({ name: entity.name, reason: dateText ? `Unrecognized date '${dateText}'` : `No '${key}' attribute` });
+        }
+      }
+    }
+    
+    const dtstamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+    const calendarName = courseName || termName!;
+    const lines = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'PRODID:-//contextmanager-student//Student Deadlines//EN',
+      'CALSCALE:GREGORIAN',
+      'METHOD:PUBLISH',
+      `X-WR-CALNAME:${escapeICalText(`${calendarName} deadlines`)}`
+    ];
+    
+    for (const { entity, course, when, uid } of items) {
+      const location = getAttributeText(entity, 'location');
+      const points = getAttributeText(entity, 'points');
+      const description = [
+        `Course: ${course.name}`,
+        `Type: ${entity.entityType}`,
+        ...(points ? [`Points: ${points}`] : [])
+      ].join('\n');
+      
+      lines.push(
+        'BEGIN:VEVENT',
+        `UID:${uid}`,
+        `DTSTAMP:${dtstamp}`,
+        `SUMMARY:${escapeICalText(`${course.name}: ${entity.name}`)}`,
+        `DESCRIPTION:${escapeICalText(description)}`,
+        `CATEGORIES:${entity.entityType.toUpperCase()}`
+      );
+      if (when.time) {
+        // Exams last for their duration attribute in minutes or hours (default one hour), deadlines are instants
+        const durationText = getAttributeText(entity, 'duration') || '';
+        const durationValue = parseFloat(durationText);
+        const durationMinutes = entity.entityType !== 'exam'
+          ? 0
+          : Number.isNaN(durationValue) ? 60 : /h(ou)?r/i.test(durationText) ? Math.round(durationValue * 60) : Math.round(durationValue);
+        // Timed events are written in UTC so calendar apps place them correctly in any timezone
+        const start = toStudentDateTime(deadlineInstant(when), 'UTC');
+        lines.push(`DTSTART:${formatICalDateTime(start)}Z`, `DURATION:PT${durationMinutes}M`);
+      } else {
+        lines.push(
+          `DTSTART;VALUE=DATE:${formatICalDateTime(when)}`,
+          `DTEND;VALUE=DATE:${formatICalDateTime({ date: addDays(when.date, 1) })}`
+        );
+      }
+      if (location) {
+        lines.push(`LOCATION:${escapeICalText(location)}`);
+      }
+      for (const minutes of reminderMinutes) {
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeICalText(`${entity.name} (${course.name})`)}`,
+          `TRIGGER:-PT${minutes}M`,
+          'END:VALARM'
+        );
+      }
+      lines.push('END:VEVENT');
+    }
+    lines.push('END:VCALENDAR');
+    
+    const resolvedPath = path.isAbsolute(filePath) ? filePath : path.join(process.cwd(), filePath);
+    await fs.writeFile(resolvedPath, lines.map(foldICalLine).join('\r\n') + '\r\n', 'utf-8');
+    
+    return {
+      filePath: resolvedPath,
+      events: items.map(({ entity, course, when }) => ({
+        name: entity.name,
+        entityType: entity.entityType,
+        course: course.name,
+        date: formatCalendarDateTime(when)
+      })),
+      skipped,
+      summary: {
+        courseCount: courses.length,
+        eventCount: items.length,
+        skippedCount: skipped.length,
+        reminderCount: reminderMinutes.length
+      }
+    };
+  }
+}
+
+// Session management functions
+async function loadSessionStates(): Promise<Map<string, any[]>> {
+  const sessions = await readJsonFile(SESSIONS_FILE_PATH, 'sessions');
+  // Convert from object to Map
+  const sessionsMap = new Map<string, any[]>();
+  for (const [key, value] of Object.entries(sessions || {})) {
+    sessionsMap.set(key, value as any[]);
+  }
+  return sessionsMap;
+}
+
+async function saveSessionStates(sessionsMap: Map<string, any[]>): Promise<void> {
+  // Convert from Map to object
+  const sessions: Record<string, any[]> = {};
+  for (const [key, value] of sessionsMap.entries()) {
+    sessions[key] = value;
+  }
+  await writeFileAtomic(SESSIONS_FILE_PATH, JSON.stringify(sessions, null, 2));
+}
+
+// Load, modify, and save session states without interleaving with other writers
+async function updateSessionStates<T>(update: (sessionsMap: Map<string, any[]>) => T | Promise<T>): Promise<T> {
+  return withFileMutation(SESSIONS_FILE_PATH, async () => {
+    const sessionStates = await loadSessionStates();
+    const result = await update(sessionStates);
+    await saveSessionStates(sessionStates);
+    return result;
+  });
+}
+
+// Generate a unique session ID
+function generateSessionId(): string {
+  return `stud_${Date.now()}_${Math.random().toString(36).substring(2, 15)}`;
+}
+
+// Setup the MCP server
+async function main() {
+  const knowledgeGraphManager = new KnowledgeGraphManager();
+  
+  // Initialize status and priority entities
+  await knowledgeGraphManager.initializeStatusAndPriority();
+  
+  // Lift legacy "Prefix: value" observations into typed attributes
+  const migration = await knowledgeGraphManager.migrateObservationsToAttributes();
+  if (migration.migratedEntities > 0 || migration.unparsed.length > 0) {
+    console.error(`Migrated ${migration.migratedEntities} entities to typed attributes; ${migration.unparsed.length} observations could not be parsed and were kept`);
+    if (migration.migratedEntities > 0) {
+      console.error(`The graph before the migration was saved as snapshot ${migration.snapshot.id}; the migration can also be undone with the history tool`);
+    }
+  }
+  
+  // Warn about integrity problems without changing anything; the validate tool can repair the safe ones
+  const integrity = await knowledgeGraphManager.validateGraph();
+  if (!integrity.valid) {
+    const counts = Object.entries(integrity.summary).map(([category, count]) => `${count} ${category}`).join(', ');
+    console.error(`Knowledge graph has ${integrity.issues.length} integrity issues (${counts}); run the validate tool to review them and repair the safe ones`);
+  }
+  
+  // Embed notes and concepts saved before semantic search, or by a different embedding provider
+  const embedded = await knowledgeGraphManager.embedMissingEntities();
+  if (embedded > 0) {
+    console.error(`Updated stored embeddings for ${embedded} entities`);
+  }
+  
+  // Helper function to get current term
+  async function getCurrentTerm(): Promise<string | null> {
+    // Find the most recently started term in progress, or else a term whose dates include today
+    for (const query of ["type:term status:in_progress", "type:term startDate<=today endDate>=today"]) {
+      const terms = (await knowledgeGraphManager.searchNodes(query)).entities;
+      if (terms.length > 0) {
+        return terms.sort(compareByDateAttribute('startDate'))[terms.length - 1].name;
+      }
+    }
+    return null;
+  }
+  
+  // Create the MCP server using the new API
+  const server = new McpServer({
+    name: "Context Manager",
+    version: "1.0.0"
+  });
+
+  // Define a resource that exposes the entire graph
+  server.resource(
+    "graph",
+    "graph://student",
+    async (uri) => ({
+      contents: [{
+        uri: uri.href,
+        text: JSON.stringify(await knowledgeGraphManager.readGraph(), null, 2)
+      }]
+    })
+  );
+
+  /**
+   * Load context for a specific entity
+   */
+  server.tool(
+    "loadcontext",
+    toolDescriptions["loadcontext"],
+    {
+      entityName: z.string(),
+      entityType: z.enum(validEntityTypes as [string, ...string[]]).optional().describe("Type of entity to load, defaults to 'course'"),
+      sessionId: z.string().optional().describe("Session ID from startsession to track context loading")
+    },
+    async ({ entityName, entityType = "course", sessionId }) => {
+      try {
+        // Validate session if ID is provided
+        if (sessionId) {
+          await updateSessionStates(sessionStates => {
+            if (!sessionStates.has(sessionId)) {
+              console.warn(`Warning: Session ${sessionId} not found, but proceeding with context load`);
+            }
+            
+            // Track that this entity was loaded in this session
+            const sessionState = sessionStates.get(sessionId) || [];
+            const loadEvent = {
+              type: 'context_loaded',
+              timestamp: new Date().toISOString(),
+              entityName,
+              entityType
+            };
+            sessionState.push(loadEvent);
+            sessionStates.set(sessionId, sessionState);
+          });
+        }
+        
+        // Get the entity
+        const entityGraph = await knowledgeGraphManager.openNodes([entityName]);
+        if (entityGraph.entities.length === 0) {
+          throw new Error(`Entity ${entityName} not found`);
+        }
+        
+        // Find the exact entity by name (case-sensitive match)
+        const entity = entityGraph.entities.find(e => e.name === entityName);
+        if (!entity) {
+          throw new Error(`Entity ${entityName} not found`);
+        }
+        
+        // Get status and priority
+        const status = await knowledgeGraphManager.getEntityStatus(entityName) || "not_started";
+        const priority = await knowledgeGraphManager.getEntityPriority(entityName);
+        
+        // Format observations for display
+        const observationsList = entity.observations.length > 0 
+          ? entity.observations.map(obs => `- ${obs}`).join("\n")
+          : "No observations";
+        
+        // Different context loading based on entity type
+        let contextMessage = "";
+        
+        if (entityType === "course") {
+          // Get course overview
+          const courseOverview = await knowledgeGraphManager.getCourseOverview(entityName);
+          
+          // Format course context message
+          const code = getAttributeText(entity, 'code') || "No code";
+          const schedule = getAttributeText(entity, 'schedule') || "No schedule";
+          const location = getAttributeText(entity, 'location') || "No location";
+          
+          // Format lectures
+          const lecturesText = courseOverview.lectures?.map((lecture: Entity) => {
+            return `- **${lecture.name}**: ${describeEntity(lecture)}`;
+          }).join("\n") || "No lectures found";
+          
+          // Format assignments - use status relation
+          const assignmentsText = courseOverview.assignments?.map(async (assignment: Entity) => {
+            const assignmentStatus = await knowledgeGraphManager.getEntityStatus(assignment.name) || "not_started";
+            const assignmentPriority = await knowledgeGraphManager.getEntityPriority(assignment.name);
+            const priorityText = assignmentPriority ? `, Priority: ${assignmentPriority}` : "";
+            return `- **${assignment.name}** (Status: ${assignmentStatus}${priorityText}): ${describeEntity(assignment)}`;
+          });
+          
+          const resolvedAssignmentsText = assignmentsText ? 
+            await Promise.all(assignmentsText).then(texts => texts.join("\n")) : 
+            "No assignments found";
+          
+          // Format exams - use status relation
+          const examsText = courseOverview.exams?.map(async (exam: Entity) => {
+            const examStatus = await knowledgeGraphManager.getEntityStatus(exam.name) || "not_started";
+            return `- **${exam.name}** (Status: ${examStatus}): ${describeEntity(exam)}`;
+          });
+          
+          const resolvedExamsText = examsText ? 
+            await Promise.all(examsText).then(texts => texts.join("\n")) : 
+            "No exams found";
+          
+          // Format concepts
+          const conceptsText = courseOverview.concepts?.map((concept: Entity) => {
+            return `- **${concept.name}**: ${describeEntity(concept)}`;
+          }).join("\n") || "No concepts found";
+          
+          // Format resources
+          const resourcesText = courseOverview.resources?.map((resource: Entity) => {
+            return `- **${resource.name}**: ${describeEntity(resource)}`;
+          }).join("\n") || "No resources found";
+          
+          // Add professor info if available
+          const professorText = courseOverview.professor ? 
+            `**Professor**: ${courseOverview.professor.name}
+${courseOverview.professor.observations.join("\n")}` : "No professor information";
+          
+          // Add term info if available
+          const termText = courseOverview.term ? 
+            `**Term**: ${courseOverview.term.name}` : "No term information";
+          
+          // Add current grade if any work has been graded
+          const courseGrade = await knowledgeGraphManager.getCourseGrade(entityName);
+          const gradeText = courseGrade.currentPercentage !== null ?
+            `${courseGrade.currentPercentage}% (${courseGrade.letterGrade})` : "No graded work yet";
+          
+          contextMessage = `# Course Context: ${entityName}
+
+## Course Overview
+- **Code**: ${code}
+- **Status**: ${status}
+- **Priority**: ${priority || "N/A"}
+- **Schedule**: ${schedule}
+- **Location**: ${location}
+- **Current Grade**: ${gradeText}
+
+## Observations
+${observationsList}
+
+- ${termText}
+- ${professorText}
+
+## Lectures
+${lecturesText}
+
+## Assignments
+${resolvedAssignmentsText}
+
+## Exams
+${resolvedExamsText}
+
+## Key Concepts
+${conceptsText}
+
+## Resources
+${resourcesText}`;
+        } 
+        else if (entityType === "assignment") {
+          // Get assignment status
+          const assignmentStatus = await knowledgeGraphManager.getAssignmentStatus(entityName);
+          
+          // Get course name
+          const courseName = assignmentStatus.course?.name || "Unknown course";
+          
+          // Format assignment context using relations instead of observations
+          const dueDate = assignmentStatus.info.dueDate || "No due date";
+          const points = getAttributeText(entity, 'points') || "Not specified";
+          const instructions = getAttributeText(entity, 'instructions') || "No instructions provided";
+          const score = parseScore(entity);
+          const scoreText = score ? `${score.earned}/${score.possible}` : "Not graded yet";
+          
+          // Calculate time remaining
+          let timeRemainingText = "No due date specified";
+          if (assignmentStatus.info.timeRemaining !== null) {
+            if (assignmentStatus.info.isOverdue) {
+              timeRemainingText = `OVERDUE by ${Math.abs(assignmentStatus.info.daysRemaining)} days`;
+            } else if (assignmentStatus.info.daysRemaining === 0) {
+              timeRemainingText = "Due today";
+            } else {
+              timeRemainingText = `${assignmentStatus.info.daysRemaining} days remaining`;
+            }
+          } else if (assignmentStatus.warnings.length > 0) {
+            timeRemainingText = assignmentStatus.warnings.join("; ");
+          }
+          
+          // Format related concepts
+          const conceptsText = assignmentStatus.concepts?.map((concept: Entity) => {
+            return `- **${concept.name}**: ${describeEntity(concept)}`;
+          }).join("\n") || "No related concepts found";
+          
+          // Format related resources
+          const resourcesText = assignmentStatus.resources?.map((resource: Entity) => {
+            return `- **${resource.name}**: ${describeEntity(resource)}`;
+          }).join("\n") || "No resources found";
+          
+          // Format notes
+          const notesText = assignmentStatus.notes?.map((note: Entity) => {
+            return `- **${note.name}**: ${describeEntity(note)}`;
+          }).join("\n") || "No notes found";
+          
+          contextMessage = `# Assignment Context: ${entityName}
+
+## Assignment Overview
+- **Course**: ${courseName}
+- **Status**: ${status}
+- **Priority**: ${priority || "N/A"}
+- **Due Date**: ${dueDate}
+- **Points**: ${points}
+- **Score**: ${scoreText}
+- **Time Remaining**: ${timeRemainingText}
+
+## Observations
+${observationsList}
+
+## Instructions
+${instructions}
+
+## Related Concepts
+${conceptsText}
+
+## Helpful Resources
+${resourcesText}
+
+## Your Notes
+${notesText}`;
+        }
+        else if (entityType === "exam") {
+          // Get exam prep information
+          const examPrep = await knowledgeGraphManager.getExamPrep(entityName);
+          
+          // Format exam context
+          const examDate = examPrep.info.examDate || "No date scheduled";
+          const examLocation = getAttributeText(entity, 'location') || "No location specified";
+          const examFormat = getAttributeText(entity, 'format') || "No format specified";
+          const examDuration = getAttributeText(entity, 'duration') || "No duration specified";
+          
+          // Calculate time remaining
+          let timeRemainingText = "No exam date specified";
+          if (examPrep.info.daysRemaining !== null) {
+            timeRemainingText = examPrep.info.daysRemaining === 0 ? "Exam is today" : `${examPrep.info.daysRemaining} days until exam`;
+          } else if (examPrep.warnings.length > 0) {
+            timeRemainingText = examPrep.warnings.join("; ");
+          }
+          
+          // Get course name
+          const courseName = examPrep.course?.name || "Unknown course";
+          
+          // Format concepts covered
+          const conceptsText = examPrep.concepts?.map((concept: Entity) => {
+            return `- **${concept.name}**: ${describeEntity(concept)}`;
+          }).join("\n") || "No concepts listed";
+          
+          // Format study resources
+          const resourcesText = examPrep.resources?.map((resource: Entity) => {
+            return `- **${resource.name}**: ${describeEntity(resource)}`;
+          }).join("\n") || "No resources found";
+          
+          // Format lectures
+          const lecturesText = examPrep.lectures?.map((lecture: Entity) => {
+            return `- **${lecture.name}**: ${describeEntity(lecture)}`;
+          }).join("\n") || "No lectures found";
+          
+          // Format practice questions with their quiz results
+          const practiceQuestionsText = examPrep.practiceQuestions?.map((question: Entity) => {
+            const stats = parseQuestionStats(question);
+            const statsText = stats.attempts > 0 ? `${stats.correct}/${stats.attempts} correct` : "not attempted";
+            return `- **${question.name}** (${statsText}): ${getAttributeText(question, "question") || question.name}`;
+          }).join("\n") || "No practice questions found";
+          
+          // Format weak questions
+          const weakQuestionsText = examPrep.weakQuestions?.map((question: Entity) => {
+            return `- **${question.name}**: ${getAttributeText(question, "question") || question.name}`;
+          }).join("\n") || "No weak questions";
+          
+          contextMessage = `# Exam Context: ${entityName}
+
+## Exam Details
+- **Course**: ${courseName}
+- **Date**: ${examDate}
+- **Time Remaining**: ${timeRemainingText}
+- **Location**: ${examLocation}
+- **Format**: ${examFormat}
+- **Duration**: ${examDuration}
+
+## Concepts to Study
+${conceptsText}
+
+## Key Lectures
+${lecturesText}
+
+## Study Resources
+${resourcesText}
+
+## Practice Questions
+${practiceQuestionsText}
+
+## Weak Questions
+${weakQuestionsText}`;
         }
         else if (entityType === "concept") {
           // Get related concepts
           const relatedConceptsData = await knowledgeGraphManager.findRelatedConcepts(entityName);
           
-          // Format concept context
-          const description = entity.observations.find(o => !o.startsWith("Level:")) || "No description available";
-          const level = entity.observations.find(o => o.startsWith("Level:"))?.substring(6) || "Beginner";
+          // Format concept context
+          const description = entity.observations.find(o => !o.startsWith("Level:")) || "No description available";
+          const level = getAttributeText(entity, 'level') || "Beginner";
+          
+          // Format related concepts
+          const relatedConceptsText = relatedConceptsData.relatedConcepts?.map((related: {
+            concept: Entity;
+            relationPath: string[];
+            depth: number;
+          }) => {
+            return `- **${related.concept.name}**: ${related.relationPath.join(' → ')}`;
+          }).join("\n") || "No related concepts found";
+          
+          // Format courses that cover this concept
+          const coursesText = relatedConceptsData.courses?.map((course: Entity) => {
+            return `- **${course.name}**: ${describeEntity(course)}`;
+          }).join("\n") || "No courses found";
+          
+          // Format resources about this concept
+          const resourcesText = relatedConceptsData.resources?.map((resource: Entity) => {
+            return `- **${resource.name}**: ${describeEntity(resource)}`;
+          }).join("\n") || "No resources found";
+          
+          contextMessage = `# Concept Context: ${entityName}
+
+## Concept Details
+- **Difficulty Level**: ${level}
+- **Description**: ${description}
+
+## Related Concepts
+${relatedConceptsText}
+
+## Covered in Courses
+${coursesText}
+
+## Learning Resources
+${resourcesText}`;
+        }
+        else if (entityType === "term") {
+          // Get term overview
+          const termOverview = await knowledgeGraphManager.getTermOverview(entityName);
+          
+          // Format term context
+          const startDate = getAttributeText(entity, 'startDate') || "No start date";
+          const endDate = getAttributeText(entity, 'endDate') || "No end date";
+          const status = getAttributeText(entity, 'status') || "Unknown status";
+          
+          // Format courses in this term
+          const coursesText = termOverview.courseData?.map((courseData: {
+            course: Entity;
+            professor: Entity | undefined;
+            info: any;
+            progress: any;
+          }) => {
+            return `- **${courseData.course.name}**: ${courseData.info.code || "No code"}, ${courseData.info.status}, ${courseData.progress.completionRate || 0}% complete`;
+          }).join("\n\n") || "No courses found";
+          
+          // Format upcoming deadlines
+          const deadlinesText = termOverview.upcomingDeadlines?.map((deadline: {
+            entity: Entity;
+            dueDate: string;
+            course: Entity;
+            daysRemaining: number;
+          }) => {
+            return `- **${deadline.entity.name}** (${deadline.entity.entityType})
+  Course: ${deadline.course.name}
+  Due: ${deadline.dueDate} (${deadline.daysRemaining} days remaining)`;
+          }).join("\n\n") || "No upcoming deadlines";
+          
+          contextMessage = `# Term Context: ${entityName}
+
+## Term Details
+- **Start Date**: ${startDate}
+- **End Date**: ${endDate}
+- **Status**: ${status}
+
+## Courses This Term
+${coursesText}
+
+## Upcoming Deadlines
+${deadlinesText}`;
+        }
+        else {
+          // Generic entity context for other entity types
+          // Find the entities directly related to this one, leaving out the shared status and priority entities
+          const neighborhood = await knowledgeGraphManager.getNeighborhood([entityName]);
+          const neighbors: Entity[] = neighborhood.entities;
+          const neighborRelations: Relation[] = neighborhood.relations;
+          
+          // Build a text representation of related entities
+          const incomingRelations = neighborRelations.filter(r => r.to === entityName);
+          const outgoingRelations = neighborRelations.filter(r => r.from === entityName);
+          
+          const incomingText = incomingRelations.map(rel => {
+            const sourceEntity = neighbors.find(e => e.name === rel.from);
+            if (!sourceEntity) return null;
+            return `- **${sourceEntity.name}** (${sourceEntity.entityType}) → ${rel.relationType} → ${entityName}`;
+          }).filter(Boolean).join("\n") || "No incoming relations";
+          
+          const outgoingText = outgoingRelations.map(rel => {
+            const targetEntity = neighbors.find(e => e.name === rel.to);
+            if (!targetEntity) return null;
+            return `- **${entityName}** → ${rel.relationType} → **${targetEntity.name}** (${targetEntity.entityType})`;
+          }).filter(Boolean).join("\n") || "No outgoing relations";
+          const truncatedText = neighborhood.truncated
+            ? `\n\nOnly the first ${DEFAULT_NEIGHBORHOOD_NODES - 1} related entities are shown; use advancedcontext type "neighborhood" with a larger maxNodes to see the rest.`
+            : "";
           
-          // Format related concepts
-          const relatedConceptsText = relatedConceptsData.relatedConcepts?.map((related: {
-            concept: Entity;
-            relationPath: string[];
-            depth: number;
-          }) => {
-            return `- **${related.concept.name}**: ${related.relationPath.join(' → ')}`;
-          }).join("\n") || "No related concepts found";
+          // Format attributes and observations
+          const attributesText = Object.entries(entity.attributes || {}).map(([key, value]) => `- **${key}**: ${value}`).join("\n") || "No attributes";
+          const observationsText = entity.observations.map(obs => `- ${obs}`).join("\n") || "No observations";
           
-          // Format courses that cover this concept
-          const coursesText = relatedConceptsData.courses?.map((course: Entity) => {
-            return `- **${course.name}**: ${course.observations.join(", ")}`;
-          }).join("\n") || "No courses found";
+          contextMessage = `# Entity Context: ${entityName} (${entityType})
+
+## Attributes
+${attributesText}
+
+## Observations
+${observationsText}
+
+## Incoming Relations
+${incomingText}
+
+## Outgoing Relations
+${outgoingText}${truncatedText}`;
+        }
+        
+        return {
+          content: [{
+            type: "text",
+            text: contextMessage
+          }]
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ 
+              success: false,
+              error: error instanceof Error ? error.message : String(error)
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  // Helper function to process each stage of endsession
+  async function processStage(params: {
+    sessionId: string;
+    stage: string;
+    stageNumber: number;
+    totalStages: number;
+    analysis?: string;
+    stageData?: any;
+    nextStageNeeded: boolean;
+    isRevision?: boolean;
+    revisesStage?: number;
+  }, previousStages: any[]): Promise<any> {
+    // Process based on the stage
+    switch (params.stage) {
+      case "summary":
+        // Process summary stage
+        return {
+          stage: "summary",
+          stageNumber: params.stageNumber,
+          analysis: params.analysis || "",
+          stageData: params.stageData || { 
+            summary: "",
+            duration: "",
+            course: ""
+          },
+          completed: !params.nextStageNeeded
+        };
+        
+      case "conceptsLearned":
+        // Process concepts learned stage
+        return {
+          stage: "conceptsLearned",
+          stageNumber: params.stageNumber,
+          analysis: params.analysis || "",
+          stageData: params.stageData || { concepts: [] },
+          completed: !params.nextStageNeeded
+        };
+        
+      case "assignmentUpdates":
+        // Process assignment updates stage
+        return {
+          stage: "assignmentUpdates",
+          stageNumber: params.stageNumber,
+          analysis: params.analysis || "",
+          stageData: params.stageData || { updates: [] },
+          completed: !params.nextStageNeeded
+        };
+        
+      case "newConcepts":
+        // Process new concepts stage
+        return {
+          stage: "newConcepts",
+          stageNumber: params.stageNumber,
+          analysis: params.analysis || "",
+          stageData: params.stageData || { concepts: [] },
+          completed: !params.nextStageNeeded
+        };
+        
+      case "courseStatus":
+        // Process course status stage
+        return {
+          stage: "courseStatus",
+          stageNumber: params.stageNumber,
+          analysis: params.analysis || "",
+          stageData: params.stageData || { 
+            courseStatus: "",
+            courseObservation: ""
+          },
+          completed: !params.nextStageNeeded
+        };
+        
+      case "assembly":
+        // Final assembly stage - compile all arguments for end-session
+        return {
+          stage: "assembly",
+          stageNumber: params.stageNumber,
+          analysis: "Final assembly of end-session arguments",
+          stageData: assembleEndSessionArgs(previousStages),
+          completed: true
+        };
+        
+      default:
+        throw new Error(`Unknown stage: ${params.stage}`);
+    }
+  }
+
+  // Helper function to assemble the final end-session arguments
+  function assembleEndSessionArgs(stages: any[]): any {
+    const summaryStage = stages.find(s => s.stage === "summary");
+    const conceptsLearnedStage = stages.find(s => s.stage === "conceptsLearned");
+    const assignmentUpdatesStage = stages.find(s => s.stage === "assignmentUpdates");
+    const newConceptsStage = stages.find(s => s.stage === "newConcepts");
+    const courseStatusStage = stages.find(s => s.stage === "courseStatus");
+    
+    return {
+      summary: summaryStage?.stageData?.summary || "",
+      duration: summaryStage?.stageData?.duration || "unknown",
+      course: summaryStage?.stageData?.course || "",
+      conceptsLearned: JSON.stringify(conceptsLearnedStage?.stageData?.concepts || []),
+      assignmentUpdates: JSON.stringify(assignmentUpdatesStage?.stageData?.updates || []),
+      courseStatus: courseStatusStage?.stageData?.courseStatus || "",
+      courseObservation: courseStatusStage?.stageData?.courseObservation || "",
+      newConcepts: JSON.stringify(newConceptsStage?.stageData?.concepts || [])
+    };
+  }
+
+  /**
+   * End session by processing all stages and recording the final results.
+   * Only use this tool if the user asks for it.
+   * 
+   * Usage examples:
+   * 
+   * 1. Starting the end session process with the summary stage:
+   * {
+   *   "sessionId": "stu_1234567890_abc123",  // From startsession
+   *   "stage": "summary",
+   *   "stageNumber": 1,
+   *   "totalStages": 6, 
+   *   "analysis": "Analyzed progress on studying for the final exam",
+   *   "stageData": {
+   *     "summary": "Reviewed course materials and completed practice problems",
+   *     "duration": "2 hours",
+   *     "focus": "Data Structures"  // Course name
+   *   },
+   *   "nextStageNeeded": true,  // More stages coming
+   *   "isRevision": false
+   * }
+   * 
+   * 2. Middle stage for concepts:
+   * {
+   *   "sessionId": "stu_1234567890_abc123",
+   *   "stage": "conceptsLearned",
+   *   "stageNumber": 2,
+   *   "totalStages": 6,
+   *   "analysis": "Listed key concepts studied",
+   *   "stageData": {
+   *     "concepts": [
+   *       "Balanced binary trees",
+   *       "Red-black trees",
+   *       "Tree traversal algorithms"
+   *     ]
+   *   },
+   *   "nextStageNeeded": true,
+   *   "isRevision": false
+   * }
+   * 
+   * 3. Final assembly stage:
+   * {
+   *   "sessionId": "stu_1234567890_abc123",
+   *   "stage": "assembly",
+   *   "stageNumber": 6,
+   *   "totalStages": 6,
+   *   "nextStageNeeded": false,  // This completes the session
+   *   "isRevision": false
+   * }
+   */
+  server.tool(
+    "endsession",
+    toolDescriptions["endsession"],
+    {
+      sessionId: z.string().describe("The unique session identifier obtained from startsession"),
+      stage: z.string().describe("Current stage of analysis: 'summary', 'conceptsLearned', 'assignmentProgress', 'questions', 'nextSteps', or 'assembly'"),
+      stageNumber: z.number().int().positive().describe("The sequence number of the current stage (starts at 1)"),
+      totalStages: z.number().int().positive().describe("Total number of stages in the workflow (typically 5 for standard workflow)"),
+      analysis: z.string().optional().describe("Text analysis or observations for the current stage"),
+      stageData: z.record(z.string(), z.any()).optional().describe(`Stage-specific data structure - format depends on the stage type:
+      - For 'summary' stage: { summary: "Session summary text", duration: "2 hours", focus: "CourseName" }
+      - For 'conceptsLearned' stage: { concepts: ["Concept A", "Concept B", "Concept C"] }
+      - For 'assignmentProgress' stage: { assignments: [{ name: "Assignment1", status: "completed" }, { name: "Assignment2", status: "in_progress" }] }
+      - For 'questions' stage: { questions: ["Question about topic X", "Question about concept Y"] }
+      - For 'nextSteps' stage: { nextSteps: ["Review chapter 7", "Complete practice problems", "Attend office hours"] }
+      - For 'assembly' stage: no stageData needed - automatic assembly of previous stages`),
+      nextStageNeeded: z.boolean().describe("Whether additional stages are needed after this one (false for final stage)"),
+      isRevision: z.boolean().optional().describe("Whether this is revising a previous stage"),
+      revisesStage: z.number().int().positive().optional().describe("If revising, which stage number is being revised")
+    },
+    async (params) => {
+      try {
+        // Load session states from persistent storage
+        const sessionStates = await loadSessionStates();
+        
+        // Validate session ID
+        if (!sessionStates.has(params.sessionId)) {
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ 
+                success: false,
+                error: `Session with ID ${params.sessionId} not found. Please start a new session with startsession.`
+              }, null, 2)
+            }]
+          };
+        }
+        
+        // Process the current stage against the latest stored session state
+        const stageResult = await updateSessionStates(async sessionStates => {
+          // Get or initialize session state
+          let sessionState = sessionStates.get(params.sessionId) || [];
+          
+          // Process the current stage
+          const stageResult = await processStage(params, sessionState);
+          
+          // Store updated state
+          if (params.isRevision && params.revisesStage) {
+            // Find the analysis stages in the session state
+            const analysisStages = sessionState.filter(item => item.type === 'analysis_stage') || [];
+            
+            if (params.revisesStage <= analysisStages.length) {
+              // Replace the revised stage
+              analysisStages[params.revisesStage - 1] = {
+                type: 'analysis_stage',
+                ...stageResult
+              };
+            } else {
+              // Add as a new stage
+              analysisStages.push({
+                type: 'analysis_stage',
+                ...stageResult
+              });
+            }
+            
+            // Update the session state with the modified analysis stages
+            sessionState = [
+              ...sessionState.filter(item => item.type !== 'analysis_stage'),
+              ...analysisStages
+            ];
+          } else {
+            // Add new stage
+            sessionState.push({
+              type: 'analysis_stage',
+              ...stageResult
+            });
+          }
           
-          // Format resources about this concept
-          const resourcesText = relatedConceptsData.resources?.map((resource: Entity) => {
-            return `- **${resource.name}**: ${resource.observations.join(", ")}`;
-          }).join("\n") || "No resources found";
+          // Update in persistent storage
+          sessionStates.set(params.sessionId, sessionState);
+          return stageResult;
+        });
+        
+        // Check if this is the final assembly stage and no more stages are needed
+        if (params.stage === "assembly" && !params.nextStageNeeded) {
+          // Get the assembled arguments
+          const args = stageResult.stageData;
+          const { sessionId } = params;
           
-          contextMessage = `# Concept Context: ${entityName}
+          try {
+            // Parse arguments
+            const summary = args.summary;
+            const duration = args.duration;
+            const course = args.course;
+            const conceptsLearned = args.conceptsLearned ? JSON.parse(args.conceptsLearned) : [];
+            const assignmentUpdates = args.assignmentUpdates ? JSON.parse(args.assignmentUpdates) : [];
+            const courseStatus = args.courseStatus;
+            const courseObservation = args.courseObservation;
+            const newConcepts = args.newConcepts ? JSON.parse(args.newConcepts) : [];
+            
+            // Link concepts learned to the existing concepts they match, creating entities for the rest
+            const timestamp = new Date().getTime();
+            // Only exact matches are reused; similar concepts are created and reported as possible duplicates to merge
+            const reusedConcepts: { concept: string; existing: string }[] = [];
+            const mergeSuggestions: { concept: string; existing: string; similarity: number }[] = [];
+            const conceptEntities: Entity[] = [];
+            for (const [i, concept] of (conceptsLearned as string[]).entries()) {
+              const match = await knowledgeGraphManager.findConcept(concept, concept);
+              if (match?.exact) {
+                reusedConcepts.push({ concept, existing: match.concept.name });
+              } else if (!conceptEntities.some(e => normalizeText(e.observations[0]) === normalizeText(concept))) {
+                const name = `Concept_${timestamp}_${i + 1}`;
+                conceptEntities.push({
+                  name,
+                  entityType: "concept",
+                  observations: [concept]
+                });
+                if (match) {
+                  mergeSuggestions.push({ concept: name, existing: match.concept.name, similarity: match.similarity });
+                }
+              }
+            }
+            
+            if (conceptEntities.length > 0) {
+              await knowledgeGraphManager.createEntities(conceptEntities, { sessionId });
+            }
+            
+            // Link concepts to course, skipping links that already exist
+            const learnedRelations = [...conceptEntities.map(c => c.name), ...reusedConcepts.map(c => c.existing)].map(name => ({
+              from: course,
+              to: name,
+              relationType: "contains"
+            }));
+            if (learnedRelations.length > 0) {
+              await knowledgeGraphManager.createRelations(learnedRelations, { upsert: true, sessionId });
+            }
+            
+            // Update assignment statuses using the relation-based approach
+            for (const assignment of assignmentUpdates) {
+              try {
+                // Map status values to standard status values
+                let statusValue;
+                switch (assignment.status.toLowerCase()) {
+                  case "completed":
+                  case "complete":
+                  case "done":
+                  case "finished":
+                  case "submitted":
+                    statusValue = "complete";
+                    break;
+                  case "in_progress":
+                  case "started":
+                  case "working":
+                  case "active":
+                    statusValue = "in_progress";
+                    break;
+                  default:
+                    // Custom status values from the type config file are used as given
+                    statusValue = VALID_STATUS_VALUES.includes(assignment.status.toLowerCase()) ? assignment.status.toLowerCase() : "not_started";
+                }
+                
+                // Set the status using the new method
+                await knowledgeGraphManager.setEntityStatus(assignment.name, statusValue, sessionId);
+              } catch (error) {
+                console.error(`Error updating status for assignment ${assignment.name}:`, error);
+              }
+            }
+            
+            // Update course status using the relation-based approach
+            try {
+              // Map course status to standard values
+              let courseStatusValue;
+              switch (courseStatus.toLowerCase()) {
+                case "completed":
+                case "complete":
+                case "done":
+                case "finished":
+                  courseStatusValue = "complete";
+                  break;
+                case "in_progress":
+                case "active":
+                case "current":
+                  courseStatusValue = "in_progress";
+                  break;
+                default:
+                  courseStatusValue = VALID_STATUS_VALUES.includes(courseStatus.toLowerCase()) ? courseStatus.toLowerCase() : "not_started";
+              }
+              
+              // Set the course status using the new method
+              await knowledgeGraphManager.setEntityStatus(course, courseStatusValue, sessionId);
+              
+              // Add observation if provided
+              if (courseObservation) {
+                await knowledgeGraphManager.addObservations(course, [courseObservation], sessionId);
+              }
+            } catch (error) {
+              console.error(`Error updating status for course ${course}:`, error);
+            }
+            
+            // Create new concept entities, adding the description to a matching existing concept instead
+            if (newConcepts && newConcepts.length > 0) {
+              const newConceptEntities: Entity[] = [];
+              const linkedConcepts: string[] = [];
+              for (const concept of newConcepts as {name: string, description: string}[]) {
+                const match = await knowledgeGraphManager.findConcept(concept.name, concept.description);
+                if (match?.exact) {
+                  const existing = match.concept;
+                  reusedConcepts.push({ concept: concept.name, existing: existing.name });
+                  if (concept.description && !existing.observations.includes(concept.description)) {
+                    await knowledgeGraphManager.addObservations(existing.name, [concept.description], sessionId);
+                  }
+                  linkedConcepts.push(existing.name);
+                } else if (!newConceptEntities.some(e => e.name === concept.name)) {
+                  newConceptEntities.push({
+                    name: concept.name,
+                    entityType: "concept",
+                    observations: concept.description ? [concept.description] : []
+                  });
+                  linkedConcepts.push(concept.name);
+                  if (match) {
+                    mergeSuggestions.push({ concept: concept.name, existing: match.concept.name, similarity: match.similarity });
+                  }
+                }
+              }
+              
+              if (newConceptEntities.length > 0) {
+                await knowledgeGraphManager.createEntities(newConceptEntities, { sessionId });
+              }
+              
+              // Link concepts to course
+              const conceptRelations = linkedConcepts.map(name => ({
+                from: course,
+                to: name,
+                relationType: "contains"
+              }));
+              
+              await knowledgeGraphManager.createRelations(conceptRelations, { upsert: true, sessionId });
+            }
+            
+            // Record session completion in persistent storage
+            await updateSessionStates(sessionStates => {
+              const sessionState = sessionStates.get(params.sessionId) || [];
+              sessionState.push({
+                type: 'session_completed',
+                timestamp: new Date().toISOString(),
+                summary: summary,
+                course: course
+              });
+              sessionStates.set(params.sessionId, sessionState);
+            });
+            
+            // Prepare the summary message
+            const summaryMessage = `# Study Session Recorded
 
-## Concept Details
-- **Difficulty Level**: ${level}
-- **Description**: ${description}
+I've recorded your study session focusing on ${course}.
 
-## Related Concepts
-${relatedConceptsText}
+## Concepts Learned
+${conceptsLearned.map((c: string) => `- ${c}`).join('\n') || "No specific concepts recorded."}
 
-## Covered in Courses
-${coursesText}
+## Assignment Updates
+${assignmentUpdates.map((a: {name: string, status: string}) => `- ${a.name}: ${a.status}`).join('\n') || "No assignment updates."}
 
-## Learning Resources
-${resourcesText}`;
+## Course Status
+Course ${course} has been updated to: ${courseStatus}
+
+${newConcepts && newConcepts.length > 0 ? `## New Concepts Added
+${newConcepts.map((c: {name: string, description: string}) => `- ${c.name}: ${c.description}`).join('\n')}` : "No new concepts added."}
+${reusedConcepts.length > 0 ? `
+## Existing Concepts Reused
+${reusedConcepts.map(c => `- ${c.concept} → ${c.existing}`).join('\n')}
+` : ""}${mergeSuggestions.length > 0 ? `
+## Possible Duplicate Concepts
+These were created as new concepts but look like existing ones. If they are the same, merge them with buildcontext type "merge":
+${mergeSuggestions.map(c => `- ${c.concept} looks like ${c.existing} (similarity ${c.similarity.toFixed(2)})`).join('\n')}
+` : ""}
+
+## Session Summary
+${summary}
+
+Would you like me to perform any additional updates to your student knowledge graph?`;
+            
+            // Return the final result with the session recorded message
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  success: true,
+                  stageCompleted: params.stage,
+                  nextStageNeeded: false,
+                  stageResult: stageResult,
+                  sessionRecorded: true,
+                  mergeSuggestions: mergeSuggestions.map(c => ({ sourceName: c.concept, targetName: c.existing, similarity: c.similarity })),
+                  summaryMessage: summaryMessage
+                }, null, 2)
+              }]
+            };
+          } catch (error) {
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({
+                  success: false,
+                  error: `Error recording study session: ${error instanceof Error ? error.message : String(error)}`
+                }, null, 2)
+              }]
+            };
+          }
+        } else {
+          // This is not the final stage or more stages are needed
+          // Return intermediate result
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({
+                success: true,
+                stageCompleted: params.stage,
+                nextStageNeeded: params.nextStageNeeded,
+                stageResult: stageResult,
+                endSessionArgs: params.stage === "assembly" ? stageResult.stageData : null
+              }, null, 2)
+            }]
+          };
         }
-        else if (entityType === "term") {
-          // Get term overview
-          const termOverview = await knowledgeGraphManager.getTermOverview(entityName);
-          
-          // Format term context
-          const startDate = entity.observations.find(o => o.startsWith("StartDate:"))?.substring(10) || "No start date";
-          const endDate = entity.observations.find(o => o.startsWith("EndDate:"))?.substring(8) || "No end date";
-          const status = entity.observations.find(o => o.startsWith("Status:"))?.substring(7) || "Unknown status";
-          
-          // Format courses in this term
-          const coursesText = termOverview.courseData?.map((courseData: {
-            course: Entity;
-            professor: Entity | undefined;
-            info: any;
-            progress: any;
-          }) => {
-            return `- **${courseData.course.name}**: ${courseData.info.code || "No code"}, ${courseData.info.status}, ${courseData.progress.completionRate || 0}% complete`;
-          }).join("\n\n") || "No courses found";
-          
-          // Format upcoming deadlines
-          const deadlinesText = termOverview.upcomingDeadlines?.map((deadline: {
-            entity: Entity;
-            dueDate: string;
-            course: Entity;
-            daysRemaining: number;
-          }) => {
-            return `- **${deadline.entity.name}** (${deadline.entity.entityType})
-  Course: ${deadline.course.name}
-  Due: ${deadline.dueDate} (${deadline.daysRemaining} days remaining)`;
-          }).join("\n\n") || "No upcoming deadlines";
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ 
+              success: false,
+              error: error instanceof Error ? error.message : String(error)
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /**
+   * Start a new study session. Returns session ID, recent study sessions, active courses, and upcoming deadlines.
+   * The output allows the user to easily choose what to focus on and which specific context to load.
+   */
+  server.tool(
+    "startsession",
+    toolDescriptions["startsession"],
+    {},
+    async () => {
+      try {
+        // Generate a unique session ID
+        const sessionId = generateSessionId();
+        
+        // Keep an automatic snapshot of the graph as it was when the session started, if it changed since the last one
+        try {
+          await knowledgeGraphManager.createSessionSnapshot(sessionId);
+        } catch (error) {
+          console.error('Error creating session snapshot:', error);
+        }
+        
+        // Get the current active term
+        const currentTerm = await getCurrentTerm();
+        
+        // Initialize the session state and get recent sessions from persistent storage instead of entities
+        const sessionStates = await updateSessionStates(sessionStates => {
+          sessionStates.set(sessionId, []);
+          return sessionStates;
+        });
+        
+        // Convert sessions map to array, sort, and take most recent ones
+        const recentSessions = Array.from(sessionStates.entries())
+          .map(([id, stages]) => {
+            // Extract summary data from the first stage (if it exists)
+            const summaryStage = stages.find(s => s.stage === "summary");
+            return {
+              id,
+              course: summaryStage?.stageData?.course || "Unknown course",
+              summary: summaryStage?.stageData?.summary || "No summary available"
+            };
+          })
+          .slice(0, 3); // Default to 3 recent sessions
+        
+        // Get active courses - look for courses with "in_progress" status
+        const allCoursesQuery = await knowledgeGraphManager.searchNodes("entityType:course");
+        const courses = [];
+        
+        // Filter courses with active status using the relation
+        for (const course of allCoursesQuery.entities) {
+          const status = await knowledgeGraphManager.getEntityStatus(course.name);
+          if (status === "in_progress" || status === "active" || !status) {
+            courses.push(course);
+          }
+        }
+        
+        // Get upcoming deadlines (default to 14 days)
+        const deadlines = await knowledgeGraphManager.getUpcomingDeadlines(
+          currentTerm || undefined, 
+          undefined, 
+          14
+        );
+
+        // Get recent concepts studied
+        const recentConceptsQuery = await knowledgeGraphManager.searchNodes("entityType:concept");
+        const recentConcepts = recentConceptsQuery.entities.slice(0, 5);
+        
+        // Get concepts due for spaced-repetition review today
+        const dueReviews = await knowledgeGraphManager.getDueReviews(studentToday(), 10);
+        
+        // Prepare message content
+        const coursesText = courses.map(async c => {
+          const status = await knowledgeGraphManager.getEntityStatus(c.name) || "not_started";
+          const priority = await knowledgeGraphManager.getEntityPriority(c.name);
+          const priorityText = priority ? ` (Priority: ${priority})` : "";
           
-          contextMessage = `# Term Context: ${entityName}
+          const preview = c.observations.length > 0 
+            ? `${c.observations[0].substring(0, 60)}${c.observations[0].length > 60 ? '...' : ''}`
+            : "No description";
+            
+          return `- **${c.name}** (Status: ${status}${priorityText}): ${preview}`;
+        });
+        
+        const resolvedCoursesText = await Promise.all(coursesText);
+        
+        const sessionsText = recentSessions.map(s => {
+          return `- ${s.course} - ${s.summary.substring(0, 60)}${s.summary.length > 60 ? '...' : ''}`;
+        }).join("\n");
+        
+        const deadlinesText = deadlines.deadlines.map((d: any) => {
+          const daysUntil = d.daysRemaining;
+          const dueText = daysUntil === 0 ? "Due today" : `Due in ${daysUntil} day${daysUntil !== 1 ? 's' : ''}`;
+          return `- **${d.entity.name}** (${d.course.name}): ${dueText}`;
+        }).join("\n");
+        
+        const conceptsText = recentConcepts.map(c => {
+          const preview = c.observations.length > 0 
+            ? `${c.observations[0].substring(0, 60)}${c.observations[0].length > 60 ? '...' : ''}`
+            : "No description";
+          return `- **${c.name}**: ${preview}`;
+        }).join("\n");
+        
+        const reviewsText = dueReviews.due.map((r: any) => {
+          const overdueText = r.daysOverdue > 0 ? `overdue by ${r.daysOverdue} day${r.daysOverdue !== 1 ? 's' : ''}` : "due today";
+          return `- **${r.concept.name}** (${overdueText}, ease ${r.reviewState.ease})`;
+        }).join("\n");
+        const moreReviewsText = dueReviews.summary.dueCount > dueReviews.due.length
+          ? `\n- ...and ${dueReviews.summary.dueCount - dueReviews.due.length} more`
+          : "";
+        
+        return {
+          content: [{
+            type: "text",
+            text: `# Choose what to focus on in this session
 
-## Term Details
-- **Start Date**: ${startDate}
-- **End Date**: ${endDate}
-- **Status**: ${status}
+## Recent Study Sessions
+${sessionsText || "No recent sessions found."}
 
-## Courses This Term
-${coursesText}
+## Current Courses
+${resolvedCoursesText.join("\n") || "No active courses found."}
 
-## Upcoming Deadlines
-${deadlinesText}`;
-        }
-        else {
-          // Generic entity context for other entity types
-          // Find all relations involving this entity
-          const relations = await knowledgeGraphManager.openNodes([entityName]);
-          
-          // Build a text representation of related entities
-          const incomingRelations = relations.relations.filter(r => r.to === entityName);
-          const outgoingRelations = relations.relations.filter(r => r.from === entityName);
-          
-          const incomingText = incomingRelations.map(rel => {
-            const sourceEntity = relations.entities.find(e => e.name === rel.from);
-            if (!sourceEntity) return null;
-            return `- **${sourceEntity.name}** (${sourceEntity.entityType}) → ${rel.relationType} → ${entityName}`;
-          }).filter(Boolean).join("\n") || "No incoming relations";
-          
-          const outgoingText = outgoingRelations.map(rel => {
-            const targetEntity = relations.entities.find(e => e.name === rel.to);
-            if (!targetEntity) return null;
-            return `- **${entityName}** → ${rel.relationType} → **${targetEntity.name}** (${targetEntity.entityType})`;
-          }).filter(Boolean).join("\n") || "No outgoing relations";
-          
-          // Format observations
-          const observationsText = entity.observations.map(obs => `- ${obs}`).join("\n") || "No observations";
-          
-          contextMessage = `# Entity Context: ${entityName} (${entityType})
+## Upcoming Deadlines (Next 14 Days)
+${deadlinesText || "No upcoming deadlines in the next 14 days."}
 
-## Observations
-${observationsText}
+## Recently Studied Concepts
+${conceptsText || "No recently studied concepts found."}
 
-## Incoming Relations
-${incomingText}
+## Due for Review
+${reviewsText ? reviewsText + moreReviewsText : "No concepts due for review today."}
 
-## Outgoing Relations
-${outgoingText}`;
-        }
-        
-        return {
-          content: [{
-            type: "text",
-            text: contextMessage
+To load the context for a specific entity, use the \`loadcontext\` tool with the entity name and session ID - ${sessionId}`
           }]
         };
       } catch (error) {
@@ -1986,442 +7280,279 @@ ${outgoingText}`;
     }
   );
 
-  // Helper function to process each stage of endsession
-  async function processStage(params: {
-    sessionId: string;
-    stage: string;
-    stageNumber: number;
-    totalStages: number;
-    analysis?: string;
-    stageData?: any;
-    nextStageNeeded: boolean;
-    isRevision?: boolean;
-    revisesStage?: number;
-  }, previousStages: any[]): Promise<any> {
-    // Process based on the stage
-    switch (params.stage) {
-      case "summary":
-        // Process summary stage
-        return {
-          stage: "summary",
-          stageNumber: params.stageNumber,
-          analysis: params.analysis || "",
-          stageData: params.stageData || { 
-            summary: "",
-            duration: "",
-            course: ""
-          },
-          completed: !params.nextStageNeeded
-        };
-        
-      case "conceptsLearned":
-        // Process concepts learned stage
-        return {
-          stage: "conceptsLearned",
-          stageNumber: params.stageNumber,
-          analysis: params.analysis || "",
-          stageData: params.stageData || { concepts: [] },
-          completed: !params.nextStageNeeded
-        };
-        
-      case "assignmentUpdates":
-        // Process assignment updates stage
-        return {
-          stage: "assignmentUpdates",
-          stageNumber: params.stageNumber,
-          analysis: params.analysis || "",
-          stageData: params.stageData || { updates: [] },
-          completed: !params.nextStageNeeded
-        };
-        
-      case "newConcepts":
-        // Process new concepts stage
-        return {
-          stage: "newConcepts",
-          stageNumber: params.stageNumber,
-          analysis: params.analysis || "",
-          stageData: params.stageData || { concepts: [] },
-          completed: !params.nextStageNeeded
-        };
-        
-      case "courseStatus":
-        // Process course status stage
-        return {
-          stage: "courseStatus",
-          stageNumber: params.stageNumber,
-          analysis: params.analysis || "",
-          stageData: params.stageData || { 
-            courseStatus: "",
-            courseObservation: ""
-          },
-          completed: !params.nextStageNeeded
-        };
-        
-      case "assembly":
-        // Final assembly stage - compile all arguments for end-session
-        return {
-          stage: "assembly",
-          stageNumber: params.stageNumber,
-          analysis: "Final assembly of end-session arguments",
-          stageData: assembleEndSessionArgs(previousStages),
-          completed: true
-        };
-        
-      default:
-        throw new Error(`Unknown stage: ${params.stage}`);
-    }
-  }
-
-  // Helper function to assemble the final end-session arguments
-  function assembleEndSessionArgs(stages: any[]): any {
-    const summaryStage = stages.find(s => s.stage === "summary");
-    const conceptsLearnedStage = stages.find(s => s.stage === "conceptsLearned");
-    const assignmentUpdatesStage = stages.find(s => s.stage === "assignmentUpdates");
-    const newConceptsStage = stages.find(s => s.stage === "newConcepts");
-    const courseStatusStage = stages.find(s => s.stage === "courseStatus");
-    
-    return {
-      summary: summaryStage?.stageData?.summary || "",
-      duration: summaryStage?.stageData?.duration || "unknown",
-      course: summaryStage?.stageData?.course || "",
-      conceptsLearned: JSON.stringify(conceptsLearnedStage?.stageData?.concepts || []),
-      assignmentUpdates: JSON.stringify(assignmentUpdatesStage?.stageData?.updates || []),
-      courseStatus: courseStatusStage?.stageData?.courseStatus || "",
-      courseObservation: courseStatusStage?.stageData?.courseObservation || "",
-      newConcepts: JSON.stringify(newConceptsStage?.stageData?.concepts || [])
-    };
-  }
-
   /**
-   * End session by processing all stages and recording the final results.
-   * Only use this tool if the user asks for it.
-   * 
-   * Usage examples:
-   * 
-   * 1. Starting the end session process with the summary stage:
-   * {
-   *   "sessionId": "stu_1234567890_abc123",  // From startsession
-   *   "stage": "summary",
-   *   "stageNumber": 1,
-   *   "totalStages": 6, 
-   *   "analysis": "Analyzed progress on studying for the final exam",
-   *   "stageData": {
-   *     "summary": "Reviewed course materials and completed practice problems",
-   *     "duration": "2 hours",
-   *     "focus": "Data Structures"  // Course name
-   *   },
-   *   "nextStageNeeded": true,  // More stages coming
-   *   "isRevision": false
-   * }
-   * 
-   * 2. Middle stage for concepts:
-   * {
-   *   "sessionId": "stu_1234567890_abc123",
-   *   "stage": "conceptsLearned",
-   *   "stageNumber": 2,
-   *   "totalStages": 6,
-   *   "analysis": "Listed key concepts studied",
-   *   "stageData": {
-   *     "concepts": [
-   *       "Balanced binary trees",
-   *       "Red-black trees",
-   *       "Tree traversal algorithms"
-   *     ]
-   *   },
-   *   "nextStageNeeded": true,
-   *   "isRevision": false
-   * }
-   * 
-   * 3. Final assembly stage:
-   * {
-   *   "sessionId": "stu_1234567890_abc123",
-   *   "stage": "assembly",
-   *   "stageNumber": 6,
-   *   "totalStages": 6,
-   *   "nextStageNeeded": false,  // This completes the session
-   *   "isRevision": false
-   * }
+   * Create new entities, relations, observations, and attributes, record assignment and exam scores and concept review outcomes, or rename and merge entities.
    */
   server.tool(
-    "endsession",
-    toolDescriptions["endsession"],
+    "buildcontext",
+    toolDescriptions["buildcontext"],
     {
-      sessionId: z.string().describe("The unique session identifier obtained from startsession"),
-      stage: z.string().describe("Current stage of analysis: 'summary', 'conceptsLearned', 'assignmentProgress', 'questions', 'nextSteps', or 'assembly'"),
-      stageNumber: z.number().int().positive().describe("The sequence number of the current stage (starts at 1)"),
-      totalStages: z.number().int().positive().describe("Total number of stages in the workflow (typically 5 for standard workflow)"),
-      analysis: z.string().optional().describe("Text analysis or observations for the current stage"),
-      stageData: z.record(z.string(), z.any()).optional().describe(`Stage-specific data structure - format depends on the stage type:
-      - For 'summary' stage: { summary: "Session summary text", duration: "2 hours", focus: "CourseName" }
-      - For 'conceptsLearned' stage: { concepts: ["Concept A", "Concept B", "Concept C"] }
-      - For 'assignmentProgress' stage: { assignments: [{ name: "Assignment1", status: "completed" }, { name: "Assignment2", status: "in_progress" }] }
-      - For 'questions' stage: { questions: ["Question about topic X", "Question about concept Y"] }
-      - For 'nextSteps' stage: { nextSteps: ["Review chapter 7", "Complete practice problems", "Attend office hours"] }
-      - For 'assembly' stage: no stageData needed - automatic assembly of previous stages`),
-      nextStageNeeded: z.boolean().describe("Whether additional stages are needed after this one (false for final stage)"),
-      isRevision: z.boolean().optional().describe("Whether this is revising a previous stage"),
-      revisesStage: z.number().int().positive().optional().describe("If revising, which stage number is being revised")
+      type: z.enum(["entities", "relations", "observations", "attributes", "scores", "reviews", "rename", "merge"]).describe("Type of creation operation: 'entities', 'relations', 'observations', 'attributes', 'scores', 'reviews', 'rename', or 'merge'"),
+      data: z.array(z.any()).describe("Data for the creation operation, structure varies by type but must be an array"),
+      sessionId: z.string().optional().describe("Session ID from startsession, recorded with the change in the change history"),
+      dryRun: z.boolean().optional().describe("Report what would be created or updated and what would be rejected, without saving. Supported for every type except 'rename' and 'merge'"),
+      partial: z.boolean().optional().describe("For 'entities', 'relations', and 'observations': apply the valid items and return a status for each item, instead of rejecting the whole batch when one item fails"),
+      upsert: z.boolean().optional().describe("For 'entities': merge observations and attributes into existing entities of the same type instead of failing. For 'relations': skip relations that already exist")
     },
-    async (params) => {
+    async ({ type, data, sessionId, dryRun, partial, upsert }) => {
       try {
-        // Load session states from persistent storage
-        const sessionStates = await loadSessionStates();
+        let result;
         
-        // Validate session ID
-        if (!sessionStates.has(params.sessionId)) {
+        if (dryRun) {
+          switch (type) {
+            case "entities":
+              result = await knowledgeGraphManager.previewCreateEntities(data.map((e: any) => ({
+                name: e.name,
+                entityType: e.entityType,
+                observations: e.observations || [],
+                attributes: e.attributes
+              })), upsert);
+              break;
+            case "relations":
+              result = await knowledgeGraphManager.previewCreateRelations(data.map((r: any) => ({
+                from: r.from,
+                to: r.to,
+                relationType: r.relationType
+              })));
+              break;
+            case "observations":
+              result = await knowledgeGraphManager.previewAddObservations(data);
+              break;
+            case "attributes":
+              result = await knowledgeGraphManager.previewSetAttributes(data);
+              break;
+            case "scores":
+              result = await knowledgeGraphManager.previewRecordScores(data);
+              break;
+            case "reviews":
+              result = await knowledgeGraphManager.previewRecordReviews(data);
+              break;
+            default:
+              throw new Error(`dryRun is not supported for type '${type}'. Use 'entities', 'relations', 'observations', 'attributes', 'scores', or 'reviews'.`);
+          }
           return {
             content: [{
               type: "text",
-              text: JSON.stringify({ 
-                success: false,
-                error: `Session with ID ${params.sessionId} not found. Please start a new session with startsession.`
-              }, null, 2)
+              text: JSON.stringify({ success: true, dryRun: true, preview: result }, null, 2)
             }]
           };
         }
         
-        // Get or initialize session state
-        let sessionState = sessionStates.get(params.sessionId) || [];
-        
-        // Process the current stage
-        const stageResult = await processStage(params, sessionState);
-        
-        // Store updated state
-        if (params.isRevision && params.revisesStage) {
-          // Find the analysis stages in the session state
-          const analysisStages = sessionState.filter(item => item.type === 'analysis_stage') || [];
-          
-          if (params.revisesStage <= analysisStages.length) {
-            // Replace the revised stage
-            analysisStages[params.revisesStage - 1] = {
-              type: 'analysis_stage',
-              ...stageResult
+        switch (type) {
+          case "entities":
+            // Ensure entities match the Entity interface
+            const typedEntities: Entity[] = data.map((e: any) => ({
+              name: e.name,
+              entityType: e.entityType,
+              observations: e.observations || [],
+              attributes: e.attributes
+            }));
+            result = await knowledgeGraphManager.createEntities(typedEntities, { partial, upsert, sessionId });
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(partial
+                  ? { success: true, results: result.results, summary: result.summary }
+                  : { success: true, created: result.graph }, null, 2)
+              }]
             };
-          } else {
-            // Add as a new stage
-            analysisStages.push({
-              type: 'analysis_stage',
-              ...stageResult
-            });
-          }
-          
-          // Update the session state with the modified analysis stages
-          sessionState = [
-            ...sessionState.filter(item => item.type !== 'analysis_stage'),
-            ...analysisStages
-          ];
-        } else {
-          // Add new stage
-          sessionState.push({
-            type: 'analysis_stage',
-            ...stageResult
-          });
-        }
-        
-        // Update in persistent storage
-        sessionStates.set(params.sessionId, sessionState);
-        await saveSessionStates(sessionStates);
-        
-        // Check if this is the final assembly stage and no more stages are needed
-        if (params.stage === "assembly" && !params.nextStageNeeded) {
-          // Get the assembled arguments
-          const args = stageResult.stageData;
-          
-          try {
-            // Parse arguments
-            const summary = args.summary;
-            const duration = args.duration;
-            const course = args.course;
-            const conceptsLearned = args.conceptsLearned ? JSON.parse(args.conceptsLearned) : [];
-            const assignmentUpdates = args.assignmentUpdates ? JSON.parse(args.assignmentUpdates) : [];
-            const courseStatus = args.courseStatus;
-            const courseObservation = args.courseObservation;
-            const newConcepts = args.newConcepts ? JSON.parse(args.newConcepts) : [];
             
-            // Create concept entities for new concepts learned
-            const timestamp = new Date().getTime();
-            const conceptEntities = conceptsLearned.map((concept: string, i: number) => ({
-              name: `Concept_${timestamp}_${i + 1}`,
-              entityType: "concept" as EntityType,
-              observations: [concept]
+          case "relations":
+            // Ensure relations match the Relation interface
+            const typedRelations: Relation[] = data.map((r: any) => ({
+              from: r.from,
+              to: r.to,
+              relationType: r.relationType
             }));
+            result = await knowledgeGraphManager.createRelations(typedRelations, { partial, upsert, sessionId });
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(partial
+                  ? { success: true, results: result.results, summary: result.summary }
+                  : { success: true, created: result.graph }, null, 2)
+              }]
+            };
             
-            if (conceptEntities.length > 0) {
-              await knowledgeGraphManager.createEntities(conceptEntities);
-              
-              // Link concepts to course
-              const conceptRelations = conceptEntities.map((concept: {name: string}) => ({
-                from: course,
-                to: concept.name,
-                relationType: "contains"
-              }));
-              
-              await knowledgeGraphManager.createRelations(conceptRelations);
-            }
+          case "observations":
+            result = await knowledgeGraphManager.addObservationsBatch(data, { partial, sessionId });
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify(partial
+                  ? { success: true, results: result.results, summary: result.summary }
+                  : { success: true, message: "Added observations to entities" }, null, 2)
+              }]
+            };
             
-            // Update assignment statuses using the relation-based approach
-            for (const assignment of assignmentUpdates) {
-              try {
-                // Map status values to standard status values
-                let statusValue;
-                switch (assignment.status.toLowerCase()) {
-                  case "completed":
-                  case "complete":
-                  case "done":
-                  case "finished":
-                  case "submitted":
-                    statusValue = "complete";
-                    break;
-                  case "in_progress":
-                  case "started":
-                  case "working":
-                  case "active":
-                    statusValue = "in_progress";
-                    break;
-                  default:
-                    statusValue = "not_started";
-                }
-                
-                // Set the status using the new method
-                await knowledgeGraphManager.setEntityStatus(assignment.name, statusValue);
-                
-                // If completed, also create a 'resolves' relation to the course
-                if (statusValue === "complete") {
-                  await knowledgeGraphManager.createRelations([{
-                    from: course,
-                    to: assignment.name,
-                    relationType: "resolves"
-                  }]);
-                }
-              } catch (error) {
-                console.error(`Error updating status for assignment ${assignment.name}:`, error);
-              }
+          case "attributes":
+            const updatedEntities = [];
+            for (const item of data) {
+              updatedEntities.push(await knowledgeGraphManager.setAttributes(item.entityName, item.attributes || {}, sessionId));
             }
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, updated: updatedEntities }, null, 2)
+              }]
+            };
             
-            // Update course status using the relation-based approach
-            try {
-              // Map course status to standard values
-              let courseStatusValue;
-              switch (courseStatus.toLowerCase()) {
-                case "completed":
-                case "complete":
-                case "done":
-                case "finished":
-                  courseStatusValue = "complete";
-                  break;
-                case "in_progress":
-                case "active":
-                case "current":
-                  courseStatusValue = "in_progress";
-                  break;
-                default:
-                  courseStatusValue = "not_started";
-              }
-              
-              // Set the course status using the new method
-              await knowledgeGraphManager.setEntityStatus(course, courseStatusValue);
-              
-              // Add observation if provided
-              if (courseObservation) {
-                await knowledgeGraphManager.addObservations(course, [courseObservation]);
-              }
-            } catch (error) {
-              console.error(`Error updating status for course ${course}:`, error);
+          case "scores":
+            for (const item of data) {
+              await knowledgeGraphManager.recordScore(item.entityName, Number(item.earned), Number(item.possible), sessionId);
             }
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, message: `Recorded scores for ${data.length} assignments/exams` }, null, 2)
+              }]
+            };
             
-            // Create new concept entities
-            if (newConcepts && newConcepts.length > 0) {
-              const newConceptEntities = newConcepts.map((concept: {name: string, description: string}) => ({
-                name: concept.name,
-                entityType: "concept" as EntityType,
-                observations: [concept.description]
-              }));
-              
-              await knowledgeGraphManager.createEntities(newConceptEntities);
-              
-              // Link concepts to course
-              const conceptRelations = newConceptEntities.map((concept: {name: string}) => ({
-                from: course,
-                to: concept.name,
-                relationType: "contains"
-              }));
-              
-              await knowledgeGraphManager.createRelations(conceptRelations);
+          case "reviews": {
+            const reviewResults = [];
+            for (const item of data) {
+              const review = await knowledgeGraphManager.recordReview(item.conceptName, item.outcome, new Date(), sessionId);
+              reviewResults.push({
+                conceptName: item.conceptName,
+                outcome: item.outcome,
+                nextReview: review.reviewState.nextReview,
+                interval: review.reviewState.interval,
+                ease: review.reviewState.ease
+              });
             }
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, reviews: reviewResults }, null, 2)
+              }]
+            };
+          }
             
-            // Record session completion in persistent storage
-            sessionState.push({
-              type: 'session_completed',
-              timestamp: new Date().toISOString(),
-              summary: summary,
-              course: course
-            });
+          case "rename":
+            const renamed = await knowledgeGraphManager.renameEntities(
+              data.map((item: any) => ({ oldName: item.oldName, newName: item.newName })),
+              sessionId
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, renamed }, null, 2)
+              }]
+            };
             
-            sessionStates.set(params.sessionId, sessionState);
-            await saveSessionStates(sessionStates);
+          case "merge":
+            const merged = await knowledgeGraphManager.mergeEntities(
+              data.map((item: any) => ({ sourceName: item.sourceName, targetName: item.targetName })),
+              sessionId
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, merged }, null, 2)
+              }]
+            };
             
-            // Prepare the summary message
-            const summaryMessage = `# Study Session Recorded
-
-I've recorded your study session focusing on ${course}.
-
-## Concepts Learned
-${conceptsLearned.map((c: string) => `- ${c}`).join('\n') || "No specific concepts recorded."}
-
-## Assignment Updates
-${assignmentUpdates.map((a: {name: string, status: string}) => `- ${a.name}: ${a.status}`).join('\n') || "No assignment updates."}
-
-## Course Status
-Course ${course} has been updated to: ${courseStatus}
-
-${newConcepts && newConcepts.length > 0 ? `## New Concepts Added
-${newConcepts.map((c: {name: string, description: string}) => `- ${c.name}: ${c.description}`).join('\n')}` : "No new concepts added."}
-
-## Session Summary
-${summary}
-
-Would you like me to perform any additional updates to your student knowledge graph?`;
+          default:
+            throw new Error(`Invalid type: ${type}. Must be 'entities', 'relations', 'observations', 'attributes', 'scores', 'reviews', 'rename', or 'merge'.`);
+        }
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ 
+              success: false,
+              error: error instanceof Error ? error.message : String(error)
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+  
+  /**
+   * Delete entities, relations, or observations.
+   */
+  server.tool(
+    "deletecontext",
+    toolDescriptions["deletecontext"],
+    {
+      type: z.enum(["entities", "relations", "observations"]).describe("Type of deletion operation: 'entities', 'relations', or 'observations'"),
+      data: z.array(z.any()).describe("Data for the deletion operation, structure varies by type but must be an array"),
+      sessionId: z.string().optional().describe("Session ID from startsession, recorded with the change in the change history"),
+      dryRun: z.boolean().optional().describe("Report what would be deleted, including relations that cascade with deleted entities, without saving")
+    },
+    async ({ type, data, sessionId, dryRun }) => {
+      try {
+        if (dryRun) {
+          let preview;
+          switch (type) {
+            case "entities":
+              preview = await knowledgeGraphManager.previewDeleteEntities(data);
+              break;
+            case "relations":
+              preview = await knowledgeGraphManager.previewDeleteRelations(data.map((r: any) => ({
+                from: r.from,
+                to: r.to,
+                relationType: r.relationType
+              })));
+              break;
+            case "observations":
+              preview = await knowledgeGraphManager.previewDeleteObservations(data.map((d: any) => ({
+                entityName: d.entityName,
+                observations: d.observations
+              })));
+              break;
+            default:
+              throw new Error(`Invalid type: ${type}. Must be 'entities', 'relations', or 'observations'.`);
+          }
+          return {
+            content: [{
+              type: "text",
+              text: JSON.stringify({ success: true, dryRun: true, preview }, null, 2)
+            }]
+          };
+        }
+        switch (type) {
+          case "entities":
+            await knowledgeGraphManager.deleteEntities(data, sessionId);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, message: `Deleted ${data.length} entities` }, null, 2)
+              }]
+            };
             
-            // Return the final result with the session recorded message
+          case "relations":
+            // Ensure relations match the Relation interface
+            const typedRelations: Relation[] = data.map((r: any) => ({
+              from: r.from,
+              to: r.to,
+              relationType: r.relationType
+            }));
+            await knowledgeGraphManager.deleteRelations(typedRelations, sessionId);
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({
-                  success: true,
-                  stageCompleted: params.stage,
-                  nextStageNeeded: false,
-                  stageResult: stageResult,
-                  sessionRecorded: true,
-                  summaryMessage: summaryMessage
-                }, null, 2)
+                text: JSON.stringify({ success: true, message: `Deleted ${data.length} relations` }, null, 2)
               }]
             };
-          } catch (error) {
+            
+          case "observations":
+            // Ensure deletions match the required interface
+            const typedDeletions: { entityName: string; observations: string[] }[] = data.map((d: any) => ({
+              entityName: d.entityName,
+              observations: d.observations
+            }));
+            await knowledgeGraphManager.deleteObservations(typedDeletions, sessionId);
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({
-                  success: false,
-                  error: `Error recording study session: ${error instanceof Error ? error.message : String(error)}`
-                }, null, 2)
+                text: JSON.stringify({ success: true, message: `Deleted observations from ${data.length} entities` }, null, 2)
               }]
             };
-          }
-        } else {
-          // This is not the final stage or more stages are needed
-          // Return intermediate result
-          return {
-            content: [{
-              type: "text",
-              text: JSON.stringify({
-                success: true,
-                stageCompleted: params.stage,
-                nextStageNeeded: params.nextStageNeeded,
-                stageResult: stageResult,
-                endSessionArgs: params.stage === "assembly" ? stageResult.stageData : null
-              }, null, 2)
-            }]
-          };
+            
+          default:
+            throw new Error(`Invalid type: ${type}. Must be 'entities', 'relations', or 'observations'.`);
         }
       } catch (error) {
         return {
@@ -2436,117 +7567,258 @@ Would you like me to perform any additional updates to your student knowledge gr
       }
     }
   );
-
+  
   /**
-   * Start a new study session. Returns session ID, recent study sessions, active courses, and upcoming deadlines.
-   * The output allows the user to easily choose what to focus on and which specific context to load.
+   * Get information about the knowledge graph, search for nodes, get course overview, get upcoming deadlines, get assignment status, get exam prep, find related concepts, track lecture notes, get term overview, get course grades, get term GPA, project the grade needed on remaining work, list concepts due for review, report likely duplicate entities, find notes and concepts by meaning, extract the neighborhood of entities, or find how two entities are connected.
    */
   server.tool(
-    "startsession",
-    toolDescriptions["startsession"],
-    {},
-    async () => {
+    "advancedcontext",
+    toolDescriptions["advancedcontext"],
+    {
+      type: z.enum(["graph", "search", "nodes", "course", "deadlines", "assignment", "exam", "concepts", "lecture", "term", "grades", "gpa", "gradeprojection", "reviews", "duplicates", "semantic", "neighborhood", "path"]).describe("Type of get operation: 'graph', 'search', 'nodes', 'course', 'deadlines', 'assignment', 'exam', 'concepts', 'lecture', 'term', 'grades', 'gpa', 'gradeprojection', 'reviews', 'duplicates', 'semantic', 'neighborhood', or 'path'"),
+      params: z.record(z.string(), z.any()).describe("Parameters for the operation, structure varies by type")
+    },
+    async ({ type, params }) => {
       try {
-        // Generate a unique session ID
-        const sessionId = generateSessionId();
-        
-        // Get the current active term
-        const currentTerm = await getCurrentTerm();
-        
-        // Get recent sessions from persistent storage instead of entities
-        const sessionStates = await loadSessionStates();
-
-        // Initialize the session state
-        sessionStates.set(sessionId, []);
-        await saveSessionStates(sessionStates);
+        let result;
         
-        // Convert sessions map to array, sort, and take most recent ones
-        const recentSessions = Array.from(sessionStates.entries())
-          .map(([id, stages]) => {
-            // Extract summary data from the first stage (if it exists)
-            const summaryStage = stages.find(s => s.stage === "summary");
+        switch (type) {
+          case "graph":
+            result = await knowledgeGraphManager.readGraph();
             return {
-              id,
-              course: summaryStage?.stageData?.course || "Unknown course",
-              summary: summaryStage?.stageData?.summary || "No summary available"
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, graph: result }, null, 2)
+              }]
             };
-          })
-          .slice(0, 3); // Default to 3 recent sessions
-        
-        // Get active courses - look for courses with "in_progress" status
-        const allCoursesQuery = await knowledgeGraphManager.searchNodes("entityType:course");
-        const courses = [];
-        
-        // Filter courses with active status using the relation
-        for (const course of allCoursesQuery.entities) {
-          const status = await knowledgeGraphManager.getEntityStatus(course.name);
-          if (status === "in_progress" || status === "active" || !status) {
-            courses.push(course);
-          }
-        }
-        
-        // Get upcoming deadlines (default to 14 days)
-        const deadlines = await knowledgeGraphManager.getUpcomingDeadlines(
-          currentTerm || undefined, 
-          undefined, 
-          14
-        );
-
-        // Get recent concepts studied
-        const recentConceptsQuery = await knowledgeGraphManager.searchNodes("entityType:concept");
-        const recentConcepts = recentConceptsQuery.entities.slice(0, 5);
-        
-        // Prepare message content
-        const coursesText = courses.map(async c => {
-          const status = await knowledgeGraphManager.getEntityStatus(c.name) || "not_started";
-          const priority = await knowledgeGraphManager.getEntityPriority(c.name);
-          const priorityText = priority ? ` (Priority: ${priority})` : "";
-          
-          const preview = c.observations.length > 0 
-            ? `${c.observations[0].substring(0, 60)}${c.observations[0].length > 60 ? '...' : ''}`
-            : "No description";
             
-          return `- **${c.name}** (Status: ${status}${priorityText}): ${preview}`;
-        });
-        
-        const resolvedCoursesText = await Promise.all(coursesText);
-        
-        const sessionsText = recentSessions.map(s => {
-          return `- ${s.course} - ${s.summary.substring(0, 60)}${s.summary.length > 60 ? '...' : ''}`;
-        }).join("\n");
-        
-        const deadlinesText = deadlines.deadlines.map((d: any) => {
-          const daysUntil = d.daysRemaining;
-          return `- **${d.entity.name}** (${d.course.name}): Due in ${daysUntil} day${daysUntil !== 1 ? 's' : ''}`;
-        }).join("\n");
-        
-        const conceptsText = recentConcepts.map(c => {
-          const preview = c.observations.length > 0 
-            ? `${c.observations[0].substring(0, 60)}${c.observations[0].length > 60 ? '...' : ''}`
-            : "No description";
-          return `- **${c.name}**: ${preview}`;
-        }).join("\n");
-        
-        return {
-          content: [{
-            type: "text",
-            text: `# Choose what to focus on in this session
-
-## Recent Study Sessions
-${sessionsText || "No recent sessions found."}
-
-## Current Courses
-${resolvedCoursesText.join("\n") || "No active courses found."}
-
-## Upcoming Deadlines (Next 14 Days)
-${deadlinesText || "No upcoming deadlines in the next 14 days."}
-
-## Recently Studied Concepts
-${conceptsText || "No recently studied concepts found."}
-
-To load the context for a specific entity, use the \`loadcontext\` tool with the entity name and session ID - ${sessionId}`
-          }]
-        };
+          case "search":
+            if (params.limit !== undefined && !(Number.isInteger(params.limit) && params.limit > 0)) {
+              throw new Error('limit must be a positive integer');
+            }
+            if (params.offset !== undefined && !(Number.isInteger(params.offset) && params.offset >= 0)) {
+              throw new Error('offset must be a non-negative integer');
+            }
+            result = await knowledgeGraphManager.rankedSearch(params.query, params.limit, params.offset);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, results: result }, null, 2)
+              }]
+            };
+            
+          case "nodes":
+            result = await knowledgeGraphManager.openNodes(params.names);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, nodes: result }, null, 2)
+              }]
+            };
+            
+          case "neighborhood":
+            if (!Array.isArray(params.names) || params.names.length === 0) {
+              throw new Error('names must be a non-empty array of entity names');
+            }
+            if (params.depth !== undefined && !(Number.isInteger(params.depth) && params.depth >= 0)) {
+              throw new Error('depth must be a non-negative integer');
+            }
+            if (params.maxNodes !== undefined && !(Number.isInteger(params.maxNodes) && params.maxNodes > 0)) {
+              throw new Error('maxNodes must be a positive integer');
+            }
+            for (const relationType of params.relationTypes || []) {
+              if (!VALID_RELATION_TYPES.includes(relationType)) {
+                throw new Error(`Invalid relation type: ${relationType}. Valid types are: ${VALID_RELATION_TYPES.join(', ')}`);
+              }
+            }
+            (params.entityTypes || []).forEach(validateEntityType);
+            result = await knowledgeGraphManager.getNeighborhood(params.names, {
+              depth: params.depth,
+              relationTypes: params.relationTypes,
+              entityTypes: params.entityTypes,
+              maxNodes: params.maxNodes,
+              includeValueNodes: params.includeValueNodes
+            });
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, neighborhood: result }, null, 2)
+              }]
+            };
+            
+          case "path":
+            if (!params.fromName || !params.toName) {
+              throw new Error('fromName and toName are required');
+            }
+            if (params.maxDepth !== undefined && !(Number.isInteger(params.maxDepth) && params.maxDepth > 0)) {
+              throw new Error('maxDepth must be a positive integer');
+            }
+            if (params.maxPaths !== undefined && !(Number.isInteger(params.maxPaths) && params.maxPaths > 0)) {
+              throw new Error('maxPaths must be a positive integer');
+            }
+            for (const relationType of params.relationTypes || []) {
+              if (!VALID_RELATION_TYPES.includes(relationType)) {
+                throw new Error(`Invalid relation type: ${relationType}. Valid types are: ${VALID_RELATION_TYPES.join(', ')}`);
+              }
+            }
+            result = await knowledgeGraphManager.findPaths(params.fromName, params.toName, params.relationTypes, params.maxDepth, params.maxPaths);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, path: result }, null, 2)
+              }]
+            };
+            
+          case "course":
+            result = await knowledgeGraphManager.getCourseOverview(params.courseName);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, course: result }, null, 2)
+              }]
+            };
+            
+          case "deadlines":
+            result = await knowledgeGraphManager.getUpcomingDeadlines(
+              params.termName, 
+              params.courseName, 
+              params.daysAhead || 14
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, deadlines: result }, null, 2)
+              }]
+            };
+            
+          case "assignment":
+            result = await knowledgeGraphManager.getAssignmentStatus(params.assignmentName);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, assignment: result }, null, 2)
+              }]
+            };
+            
+          case "exam":
+            result = await knowledgeGraphManager.getExamPrep(params.examName);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, exam: result }, null, 2)
+              }]
+            };
+            
+          case "concepts":
+            result = await knowledgeGraphManager.findRelatedConcepts(
+              params.conceptName,
+              params.depth || 1
+            );
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, concepts: result }, null, 2)
+              }]
+            };
+            
+          case "lecture":
+            result = await knowledgeGraphManager.trackLectureNotes(params.courseName);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, lectures: result }, null, 2)
+              }]
+            };
+            
+          case "term":
+            result = await knowledgeGraphManager.getTermOverview(params.termName);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, term: result }, null, 2)
+              }]
+            };
+            
+          case "grades":
+            result = await knowledgeGraphManager.getCourseGrade(params.courseName);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, grades: result }, null, 2)
+              }]
+            };
+            
+          case "gpa":
+            result = await knowledgeGraphManager.getTermGPA(params.termName);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, gpa: result }, null, 2)
+              }]
+            };
+            
+          case "gradeprojection":
+            result = await knowledgeGraphManager.getGradeProjection(params.courseName, params.targetGrade);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, projection: result }, null, 2)
+              }]
+            };
+            
+          case "reviews": {
+            const reviewDate = params.date ? parseDateTimeValue(String(params.date)) : undefined;
+            if (params.date && !reviewDate) {
+              throw new Error(`Unrecognized date '${params.date}'`);
+            }
+            result = await knowledgeGraphManager.getDueReviews(reviewDate?.date, params.limit);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, reviews: result }, null, 2)
+              }]
+            };
+          }
+            
+          case "duplicates":
+            if (params.entityType) {
+              validateEntityType(params.entityType);
+            }
+            if (params.threshold !== undefined && !(params.threshold > 0 && params.threshold <= 1)) {
+              throw new Error('threshold must be a number greater than 0 and at most 1');
+            }
+            result = await knowledgeGraphManager.findDuplicates(params.entityType, params.threshold);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, duplicates: result }, null, 2)
+              }]
+            };
+            
+          case "semantic":
+            if (typeof params.query !== 'string' || params.query.trim() === '') {
+              throw new Error('query is required for semantic search');
+            }
+            if (params.limit !== undefined && !(Number.isInteger(params.limit) && params.limit > 0)) {
+              throw new Error('limit must be a positive integer');
+            }
+            if (params.entityTypes !== undefined) {
+              if (!Array.isArray(params.entityTypes) || params.entityTypes.length === 0) {
+                throw new Error('entityTypes must be a non-empty array of entity types');
+              }
+              params.entityTypes.forEach(validateEntityType);
+            }
+            result = await knowledgeGraphManager.semanticSearch(params.query, params.limit, params.entityTypes);
+            return {
+              content: [{
+                type: "text",
+                text: JSON.stringify({ success: true, semantic: result }, null, 2)
+              }]
+            };
+            
+          default:
+            throw new Error(`Invalid type: ${type}. Must be one of the supported get operation types.`);
+        }
       } catch (error) {
         return {
           content: [{
@@ -2562,70 +7834,52 @@ To load the context for a specific entity, use the \`loadcontext\` tool with the
   );
 
   /**
-   * Create new entities, relations, and observations.
+   * Draw a randomized self-quiz from the question bank, or record answers to quiz questions.
    */
   server.tool(
-    "buildcontext",
-    toolDescriptions["buildcontext"],
+    "quiz",
+    toolDescriptions["quiz"],
     {
-      type: z.enum(["entities", "relations", "observations"]).describe("Type of creation operation: 'entities', 'relations', or 'observations'"),
-      data: z.array(z.any()).describe("Data for the creation operation, structure varies by type but must be an array")
+      action: z.enum(["draw", "answer"]).describe("'draw' to get a randomized set of questions, 'answer' to record answers"),
+      courseName: z.string().optional().describe("For 'draw': draw questions for this course"),
+      examName: z.string().optional().describe("For 'draw': draw questions for this exam"),
+      conceptNames: z.array(z.string()).optional().describe("For 'draw': draw questions covering these concepts"),
+      count: z.number().int().positive().optional().describe("For 'draw': number of questions to draw, defaults to 5"),
+      answers: z.array(z.object({
+        questionName: z.string(),
+        answer: z.string().optional().describe("The student's answer, compared with the question's answer attribute"),
+        correct: z.boolean().optional().describe("Whether the answer was correct, overrides the comparison")
+      })).optional().describe("For 'answer': answers to record"),
+      sessionId: z.string().optional().describe("For 'answer': session ID from startsession, recorded with the results in the change history")
     },
-    async ({ type, data }) => {
+    async ({ action, courseName, examName, conceptNames, count, answers, sessionId }) => {
       try {
         let result;
         
-        switch (type) {
-          case "entities":
-            // Validate entity types
-            for (const entity of data) {
-              validateEntityType(entity.entityType);
-            }
-            
-            // Ensure entities match the Entity interface
-            const typedEntities: Entity[] = data.map((e: any) => ({
-              name: e.name,
-              entityType: e.entityType,
-              observations: e.observations
-            }));
-            result = await knowledgeGraphManager.createEntities(typedEntities);
-            return {
-              content: [{
-                type: "text",
-                text: JSON.stringify({ success: true, created: result }, null, 2)
-              }]
-            };
-            
-          case "relations":
-            // Ensure relations match the Relation interface
-            const typedRelations: Relation[] = data.map((r: any) => ({
-              from: r.from,
-              to: r.to,
-              relationType: r.relationType
-            }));
-            result = await knowledgeGraphManager.createRelations(typedRelations);
+        switch (action) {
+          case "draw":
+            result = await knowledgeGraphManager.drawQuiz({ courseName, examName, conceptNames }, count || 5);
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({ success: true, created: result }, null, 2)
+                text: JSON.stringify({ success: true, quiz: result }, null, 2)
               }]
             };
             
-          case "observations":
-            for (const item of data) {
-              if (item.entityName && Array.isArray(item.contents)) {
-                await knowledgeGraphManager.addObservations(item.entityName, item.contents);
-              }
+          case "answer":
+            if (!answers || answers.length === 0) {
+              throw new Error("No answers provided");
             }
+            result = await knowledgeGraphManager.recordQuizAnswers(answers, sessionId);
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({ success: true, message: "Added observations to entities" }, null, 2)
+                text: JSON.stringify({ success: true, results: result }, null, 2)
               }]
             };
             
           default:
-            throw new Error(`Invalid type: ${type}. Must be 'entities', 'relations', or 'observations'.`);
+            throw new Error(`Invalid action: ${action}. Must be 'draw' or 'answer'.`);
         }
       } catch (error) {
         return {
@@ -2640,60 +7894,51 @@ To load the context for a specific entity, use the \`loadcontext\` tool with the
       }
     }
   );
-  
+
   /**
-   * Delete entities, relations, or observations.
+   * Import course schedules, lectures, exams, and assignment due dates from an iCalendar (.ics) file,
+   * or export deadlines and exams to one.
    */
   server.tool(
-    "deletecontext",
-    toolDescriptions["deletecontext"],
+    "calendar",
+    toolDescriptions["calendar"],
     {
-      type: z.enum(["entities", "relations", "observations"]).describe("Type of deletion operation: 'entities', 'relations', or 'observations'"),
-      data: z.array(z.any()).describe("Data for the deletion operation, structure varies by type but must be an array")
+      action: z.enum(["import", "export"]).describe("'import' to create entities from an .ics file, 'export' to write deadlines and exams to an .ics file"),
+      filePath: z.string().describe("Path to the .ics file, absolute or relative to the server's working directory"),
+      courseName: z.string().optional().describe("For 'import': course the imported entities belong to (required). For 'export': export only this course"),
+      termName: z.string().optional().describe("For 'export': export all courses in this term"),
+      defaultType: z.enum(["lecture", "exam", "assignment"]).optional().describe("For 'import': entity type for events that are not recognized as exams or assignments, defaults to 'lecture'"),
+      reminderMinutes: z.array(z.number().int().nonnegative()).optional().describe("For 'export': reminders to add to each event, in minutes before it starts, defaults to [1440] (one day)"),
+      sessionId: z.string().optional().describe("For 'import': session ID from startsession, recorded with the import in the change history")
     },
-    async ({ type, data }) => {
+    async ({ action, filePath, courseName, termName, defaultType, reminderMinutes, sessionId }) => {
       try {
-        switch (type) {
-          case "entities":
-            await knowledgeGraphManager.deleteEntities(data);
-            return {
-              content: [{
-                type: "text",
-                text: JSON.stringify({ success: true, message: `Deleted ${data.length} entities` }, null, 2)
-              }]
-            };
-            
-          case "relations":
-            // Ensure relations match the Relation interface
-            const typedRelations: Relation[] = data.map((r: any) => ({
-              from: r.from,
-              to: r.to,
-              relationType: r.relationType
-            }));
-            await knowledgeGraphManager.deleteRelations(typedRelations);
+        let result;
+        
+        switch (action) {
+          case "import":
+            if (!courseName) {
+              throw new Error("courseName is required for import");
+            }
+            result = await knowledgeGraphManager.importCalendar(filePath, courseName, defaultType || "lecture", sessionId);
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({ success: true, message: `Deleted ${data.length} relations` }, null, 2)
+                text: JSON.stringify({ success: true, imported: result }, null, 2)
               }]
             };
             
-          case "observations":
-            // Ensure deletions match the required interface
-            const typedDeletions: { entityName: string; observations: string[] }[] = data.map((d: any) => ({
-              entityName: d.entityName,
-              observations: d.observations
-            }));
-            await knowledgeGraphManager.deleteObservations(typedDeletions);
+          case "export":
+            result = await knowledgeGraphManager.exportCalendar(filePath, { termName, courseName, reminderMinutes });
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({ success: true, message: `Deleted observations from ${data.length} entities` }, null, 2)
+                text: JSON.stringify({ success: true, exported: result }, null, 2)
               }]
             };
             
           default:
-            throw new Error(`Invalid type: ${type}. Must be 'entities', 'relations', or 'observations'.`);
+            throw new Error(`Invalid action: ${action}. Must be 'import' or 'export'.`);
         }
       } catch (error) {
         return {
@@ -2708,121 +7953,133 @@ To load the context for a specific entity, use the \`loadcontext\` tool with the
       }
     }
   );
-  
+
   /**
-   * Get information about the knowledge graph, search for nodes, get course overview, get upcoming deadlines, get assignment status, get exam prep, find related concepts, track lecture notes, or get term overview.
+   * List recent knowledge graph changes, undo the most recent ones, or redo undone ones.
    */
   server.tool(
-    "advancedcontext",
-    toolDescriptions["advancedcontext"],
+    "history",
+    toolDescriptions["history"],
     {
-      type: z.enum(["graph", "search", "nodes", "course", "deadlines", "assignment", "exam", "concepts", "lecture", "term"]).describe("Type of get operation: 'graph', 'search', 'nodes', 'course', 'deadlines', 'assignment', 'exam', 'concepts', 'lecture', or 'term'"),
-      params: z.record(z.string(), z.any()).describe("Parameters for the operation, structure varies by type")
+      action: z.enum(["list", "undo", "redo"]).describe("'list' to show recent changes, 'undo' to revert the most recent changes, 'redo' to reapply undone changes"),
+      count: z.number().int().positive().optional().describe("For 'undo' and 'redo': number of changes to revert or reapply, defaults to 1"),
+      limit: z.number().int().positive().optional().describe("For 'list': number of changes to show, defaults to 20"),
+      sessionId: z.string().optional().describe("For 'list': only show changes made in this session. For 'undo' and 'redo': session recorded with the undo or redo")
     },
-    async ({ type, params }) => {
+    async ({ action, count, limit, sessionId }) => {
       try {
         let result;
         
-        switch (type) {
-          case "graph":
-            result = await knowledgeGraphManager.readGraph();
-            return {
-              content: [{
-                type: "text",
-                text: JSON.stringify({ success: true, graph: result }, null, 2)
-              }]
-            };
-            
-          case "search":
-            result = await knowledgeGraphManager.searchNodes(params.query);
-            return {
-              content: [{
-                type: "text",
-                text: JSON.stringify({ success: true, results: result }, null, 2)
-              }]
-            };
-            
-          case "nodes":
-            result = await knowledgeGraphManager.openNodes(params.names);
-            return {
-              content: [{
-                type: "text",
-                text: JSON.stringify({ success: true, nodes: result }, null, 2)
-              }]
-            };
-            
-          case "course":
-            result = await knowledgeGraphManager.getCourseOverview(params.courseName);
+        switch (action) {
+          case "list":
+            result = await knowledgeGraphManager.listChanges(limit || 20, sessionId);
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({ success: true, course: result }, null, 2)
+                text: JSON.stringify({ success: true, history: result }, null, 2)
               }]
             };
             
-          case "deadlines":
-            result = await knowledgeGraphManager.getUpcomingDeadlines(
-              params.termName, 
-              params.courseName, 
-              params.daysAhead || 14
-            );
+          case "undo":
+            result = await knowledgeGraphManager.undoChanges(count || 1, sessionId);
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({ success: true, deadlines: result }, null, 2)
+                text: JSON.stringify({ success: true, ...result }, null, 2)
               }]
             };
             
-          case "assignment":
-            result = await knowledgeGraphManager.getAssignmentStatus(params.assignmentName);
+          case "redo":
+            result = await knowledgeGraphManager.redoChanges(count || 1, sessionId);
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({ success: true, assignment: result }, null, 2)
+                text: JSON.stringify({ success: true, ...result }, null, 2)
               }]
             };
             
-          case "exam":
-            result = await knowledgeGraphManager.getExamPrep(params.examName);
+          default:
+            throw new Error(`Invalid action: ${action}. Must be 'list', 'undo', or 'redo'.`);
+        }
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ 
+              success: false,
+              error: error instanceof Error ? error.message : String(error)
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
+  /**
+   * Create, list, compare, and restore point-in-time snapshots of the knowledge graph and sessions.
+   */
+  server.tool(
+    "snapshot",
+    toolDescriptions["snapshot"],
+    {
+      action: z.enum(["create", "list", "diff", "restore"]).describe("'create' to save a named snapshot, 'list' to show snapshots, 'diff' to compare snapshots, 'restore' to restore one"),
+      name: z.string().optional().describe("For 'create': name of the snapshot, e.g. 'before finals week'"),
+      snapshot: z.string().optional().describe("For 'diff' and 'restore': ID or name of the snapshot (a name selects its most recent snapshot)"),
+      compareTo: z.string().optional().describe("For 'diff': ID or name of a second snapshot to compare with, defaults to the current graph"),
+      sessionId: z.string().optional().describe("For 'restore': session ID from startsession, recorded with the restore in the change history")
+    },
+    async ({ action, name, snapshot, compareTo, sessionId }) => {
+      try {
+        let result;
+        
+        switch (action) {
+          case "create":
+            if (!name) {
+              throw new Error("name is required for create");
+            }
+            result = await knowledgeGraphManager.createSnapshot(name);
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({ success: true, exam: result }, null, 2)
+                text: JSON.stringify({ success: true, ...result }, null, 2)
               }]
             };
             
-          case "concepts":
-            result = await knowledgeGraphManager.findRelatedConcepts(
-              params.conceptName,
-              params.depth || 1
-            );
+          case "list":
+            result = await knowledgeGraphManager.listSnapshots();
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({ success: true, concepts: result }, null, 2)
+                text: JSON.stringify({ success: true, ...result }, null, 2)
               }]
             };
             
-          case "lecture":
-            result = await knowledgeGraphManager.trackLectureNotes(params.courseName);
+          case "diff":
+            if (!snapshot) {
+              throw new Error("snapshot is required for diff");
+            }
+            result = await knowledgeGraphManager.diffSnapshots(snapshot, compareTo);
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({ success: true, lectures: result }, null, 2)
+                text: JSON.stringify({ success: true, diff: result }, null, 2)
               }]
             };
             
-          case "term":
-            result = await knowledgeGraphManager.getTermOverview(params.termName);
+          case "restore":
+            if (!snapshot) {
+              throw new Error("snapshot is required for restore");
+            }
+            result = await knowledgeGraphManager.restoreSnapshot(snapshot, sessionId);
             return {
               content: [{
                 type: "text",
-                text: JSON.stringify({ success: true, term: result }, null, 2)
+                text: JSON.stringify({ success: true, ...result }, null, 2)
               }]
             };
             
           default:
-            throw new Error(`Invalid type: ${type}. Must be one of the supported get operation types.`);
+            throw new Error(`Invalid action: ${action}. Must be 'create', 'list', 'diff', or 'restore'.`);
         }
       } catch (error) {
         return {
@@ -2838,6 +8095,39 @@ To load the context for a specific entity, use the \`loadcontext\` tool with the
     }
   );
 
+  /**
+   * Check the knowledge graph for integrity problems, optionally repairing the safe ones.
+   */
+  server.tool(
+    "validate",
+    toolDescriptions["validate"],
+    {
+      repair: z.boolean().optional().describe("Fix the safe issues (dangling, duplicate, and superseded relations); defaults to false, which only reports"),
+      sessionId: z.string().optional().describe("Session ID from startsession, recorded with the repair in the change history")
+    },
+    async ({ repair, sessionId }) => {
+      try {
+        const result = await knowledgeGraphManager.validateGraph(repair || false, sessionId);
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ success: true, ...result }, null, 2)
+          }]
+        };
+      } catch (error) {
+        return {
+          content: [{
+            type: "text",
+            text: JSON.stringify({ 
+              success: false,
+              error: error instanceof Error ? error.message : String(error)
+            }, null, 2)
+          }]
+        };
+      }
+    }
+  );
+
   // Start the server
   try {
     const transport = new StdioServerTransport();
@@ -2848,10 +8138,55 @@ To load the context for a specific entity, use the \`loadcontext\` tool with the
   }
 }
 
-main().catch(error => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-}); 
+// Copy the knowledge graph between storage backends, e.g. "contextmanager-student migrate --from json --to sqlite"
+async function migrateStorage(args: string[]): Promise<void> {
+  const option = (name: string) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const from = option('from');
+  const to = option('to');
+  if (!from || !to || from === to) {
+    throw new Error(`Usage: contextmanager-student migrate --from <${VALID_STORAGE_BACKENDS.join('|')}> --to <${VALID_STORAGE_BACKENDS.join('|')}> [--force]`);
+  }
+  
+  const source = createGraphStorage(from);
+  const target = createGraphStorage(to);
+  const graph = await source.load();
+  
+  // The sqlite backend keys entities by name and relations by endpoints and type, so duplicates
+  // would be merged silently; refuse to copy them
+  const duplicates = checkGraphIntegrity(graph).filter(issue => issue.category === 'duplicateEntity' || issue.category === 'duplicateRelation');
+  if (duplicates.length > 0) {
+    throw new Error(`${source.location} has ${duplicates.length} duplicate entities or relations that would be merged by the copy:\n` +
+      duplicates.map(issue => `- ${issue.message}`).join('\n') +
+      '\nResolve them first: the validate tool with repair removes duplicate relations; duplicate entities have to be edited in the source by hand');
+  }
+  await target.mutate(async () => {
+    // Refuse to replace an existing graph unless asked to
+    const existing = await target.load();
+    if ((existing.entities.length > 0 || existing.relations.length > 0) && !args.includes('--force')) {
+      throw new Error(`${target.location} already contains a knowledge graph; pass --force to replace it`);
+    }
+    await target.save(graph);
+  });
+  console.error(`Migrated ${graph.entities.length} entities and ${graph.relations.length} relations from ${source.location} to ${target.location}`);
+}
+
+// Only start when run directly, so the manager can be imported (e.g. by the benchmark script)
+const isEntryPoint = process.argv[1] !== undefined && realpathSync(process.argv[1]) === fileURLToPath(import.meta.url);
+
+if (isEntryPoint && process.argv[2] === 'migrate') {
+  migrateStorage(process.argv.slice(3)).catch(error => {
+    console.error('Migration failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+} else if (isEntryPoint) {
+  main().catch(error => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
 
 // Export the KnowledgeGraphManager class for testing
 export { KnowledgeGraphManager }; 
\ No newline at end of file